@@ -0,0 +1,1406 @@
+import {before, describe, it} from 'node:test';
+import assert from 'node:assert/strict';
+import {Request, Response} from "express"
+import {FieldValue} from 'firebase-admin/firestore';
+
+// Configuration of the functions under test, the emulator defaults are used. The rate limit buckets are kept by the
+// in-memory repositories, so every test starts with full buckets
+process.env.FUNCTIONS_EMULATOR = 'true';
+process.env.LOG_LEVEL = 'ERROR';
+process.env.RATE_LIMITING_ENABLED = 'true';
+process.env.STOCK_RESERVATIONS_ENABLED = 'true';
+
+// Functions under test, loaded once the configuration is set
+let functions: typeof import('./index.js');
+
+// Response recorded by the fake response
+type RecordedResponseData = {
+    status: number,
+    body: any,
+}
+
+// Create a request with the ID token of a user, the in-memory accounts take the user ID as ID token. The header names
+// are lowercase, as Express gives them
+function createRequest(uid: string | null, body: unknown = {}, extraHeaders: Record<string, string> = {}) {
+    const headers: Record<string, string> = {...extraHeaders, ...(uid !== null ? {authorization: `Bearer ${uid}`} : {})};
+    return {
+        method: 'POST',
+        headers,
+        body,
+        ip: '127.0.0.1',
+        get: (name: string) => headers[name.toLowerCase()],
+    } as unknown as Request;
+}
+
+// Create a request of an API route, the query parameters are given as strings as Express parses them
+function createApiRequest(uid: string | null, method: string, path: string, body: unknown = {}, query: Record<string, string> = {}) {
+    return Object.assign(createRequest(uid, body), {method, path, query});
+}
+
+// Create a response recording the status and the body sent by the handler
+function createResponse() {
+    const recorded: RecordedResponseData = {status: 200, body: undefined};
+    const res = {
+        statusCode: 200,
+        status(status: number) {
+            res.statusCode = recorded.status = status;
+            return res;
+        },
+        set: () => res,
+        type: () => res,
+        send(body: unknown) {
+            recorded.body = body;
+            return res;
+        },
+        json(body: unknown) {
+            recorded.body = body;
+            return res;
+        },
+    };
+    return {res: res as unknown as Response, recorded};
+}
+
+// Repositories given to the endpoint handlers
+type TestRepositories = ReturnType<typeof functions.createInMemoryRepositories>;
+
+// Endpoint whose handler is created over the given repositories, sending the given status on success
+type TestEndpoint = {
+    createHandler(repositories: TestRepositories, successStatus?: number): (req: Request, res: Response) => Promise<void>,
+}
+
+// Call an endpoint as a user, null for the unauthenticated requests, returning the recorded response
+async function callEndpoint(
+    endpoint: TestEndpoint,
+    repositories: TestRepositories,
+    uid: string | null,
+    body: unknown = {},
+    headers: Record<string, string> = {}
+) {
+    const {res, recorded} = createResponse();
+    await endpoint.createHandler(repositories)(createRequest(uid, body, headers), res);
+    return recorded;
+}
+
+// Create the data of a product of the seller
+function createProductData(fields: Record<string, unknown> = {}) {
+    return {
+        title: 'Helmet',
+        description: 'Full face helmet',
+        price: 100,
+        stock: 5,
+        reserved: 0,
+        active: true,
+        brand: 'Honda',
+        tags: ['safety'],
+        owner: 'seller',
+        image_url: '',
+        sku: 'HELMET',
+        search_tokens: ['helmet', 'honda', 'safety', 'full', 'face'],
+        rating_average: 0,
+        rating_count: 0,
+        rating_sum: 0,
+        deleted_at: null,
+        created_at: new Date('2024-01-01T00:00:00Z'),
+        ...fields,
+    };
+}
+
+// Create the data of a completed order of the buyer, with a line of the helmet of the seller
+function createOrderData(fields: Record<string, unknown> = {}) {
+    return {
+        owner: 'buyer',
+        cart_id: 'cart',
+        status: 'completed',
+        items: [{
+            product_id: 'helmet',
+            variant_id: null,
+            sku: 'HELMET',
+            options: null,
+            title: 'Helmet',
+            brand: 'Honda',
+            image_url: '',
+            seller: 'seller',
+            unit_price: 100,
+            quantity: 1,
+            subtotal: 100,
+            discount: 0,
+            total: 100,
+        }],
+        product_ids: ['helmet'],
+        sellers: ['seller'],
+        item_count: 1,
+        coupon_code: null,
+        subtotal: 100,
+        discount: 0,
+        total: 100,
+        shipping_address: null,
+        created_at: new Date('2024-01-01T00:00:00Z'),
+        ...fields,
+    };
+}
+
+// Create the data of an image of the gallery of the helmet
+function createImageData(id: string) {
+    const path = `products/helmet/images/${id}`;
+    return {id, path, url: `https://example.com/${path}`, content_type: 'image/png', size: 100, created_at: new Date()};
+}
+
+// Get the component schema names referenced anywhere in a part of the document
+function getReferencedSchemas(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.flatMap(getReferencedSchemas);
+    }
+    if (typeof value !== 'object' || value === null) {
+        return [];
+    }
+    return Object.entries(value).flatMap(([key, item]) => key === '$ref' && typeof item === 'string'
+        ? [item.replace('#/components/schemas/', '')]
+        : getReferencedSchemas(item));
+}
+
+// Create the repositories of a store with a seller, a buyer with a default address and a product
+function createStoreRepositories() {
+    return functions.createInMemoryRepositories({
+        accounts: {
+            seller: {claims: {roles: ['seller']}},
+            buyer: {claims: {roles: ['buyer']}},
+            other_buyer: {claims: {roles: ['buyer']}},
+            admin: {claims: {roles: ['admin']}},
+        },
+        users: {
+            seller: {first_name: 'Sam', last_name: 'Seller'},
+            other_buyer: {first_name: 'Oli', last_name: 'Other'},
+            admin: {first_name: 'Ada', last_name: 'Admin'},
+            buyer: {
+                first_name: 'Bea',
+                last_name: 'Buyer',
+                addresses: {
+                    home: {
+                        label: 'Home',
+                        recipient: 'Bea Buyer',
+                        line1: '1 Main Street',
+                        line2: null,
+                        city: 'Montevideo',
+                        region: null,
+                        postal_code: '11000',
+                        country: 'UY',
+                        phone: null,
+                    },
+                },
+                default_address_id: 'home',
+            },
+        },
+        products: {
+            helmet: {
+                title: 'Helmet',
+                description: 'Full face helmet',
+                price: 100,
+                stock: 5,
+                reserved: 0,
+                active: true,
+                brand: 'Honda',
+                tags: ['safety'],
+                owner: 'seller',
+                image_url: '',
+                sku: 'HELMET',
+                search_tokens: ['helmet'],
+                rating_average: 0,
+                rating_count: 0,
+                rating_sum: 0,
+                deleted_at: null,
+                created_at: new Date(),
+            },
+        },
+    });
+}
+
+describe('cart endpoints', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('reserves the units of the lines added to the cart', async () => {
+        const repositories = createStoreRepositories();
+        const {res, recorded} = createResponse();
+
+        await functions.add_product_to_cart.createHandler(repositories)(
+            createRequest('buyer', {product_id: 'helmet', quantity: 2}),
+            res
+        );
+
+        assert.equal(recorded.status, 200, JSON.stringify(recorded.body));
+        const productData = await repositories.products.get('helmet');
+        assert.equal(productData?.stock, 5);
+        assert.equal(productData?.reserved, 2);
+        const cart = await repositories.carts.findPending('buyer');
+        assert.deepEqual(cart?.data.product_ids, ['helmet']);
+    });
+
+    it('sells the reserved units on checkout', async () => {
+        const repositories = createStoreRepositories();
+        await functions.add_product_to_cart.createHandler(repositories)(
+            createRequest('buyer', {product_id: 'helmet', quantity: 2}),
+            createResponse().res
+        );
+        const {res, recorded} = createResponse();
+
+        await functions.checkout_cart.createHandler(repositories)(createRequest('buyer'), res);
+
+        assert.equal(recorded.status, 200, JSON.stringify(recorded.body));
+        assert.equal(typeof recorded.body.order_id, 'string');
+        const productData = await repositories.products.get('helmet');
+        assert.equal(productData?.stock, 3);
+        assert.equal(productData?.reserved, 0);
+        assert.equal(await repositories.carts.findPending('buyer'), null);
+    });
+
+    it('rejects the whole checkout when a line can no longer be sold', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            accounts: {buyer: {claims: {roles: ['buyer']}}},
+            users: {seller: {first_name: 'Sam', last_name: 'Seller'}},
+            products: {
+                helmet: createProductData(),
+                gloves: createProductData({title: 'Gloves', sku: 'GLOVES', price: 30}),
+            },
+        });
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1});
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'gloves', quantity: 2});
+        await repositories.products.update('gloves', {active: false});
+
+        const checkout = await callEndpoint(functions.checkout_cart, repositories, 'buyer');
+
+        assert.equal(checkout.status, 409);
+        assert.deepEqual(checkout.body.details.map((error: {product_id: string}) => error.product_id), ['gloves']);
+        assert.equal((await repositories.products.get('helmet'))?.stock, 5);
+        assert.equal((await repositories.products.get('helmet'))?.reserved, 1);
+        assert.notEqual(await repositories.carts.findPending('buyer'), null);
+    });
+
+    it('flags the lines whose price changed until the buyer accepts the current prices', async () => {
+        const repositories = createStoreRepositories();
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1});
+        await repositories.products.update('helmet', {price: 120});
+
+        const drifted = await callEndpoint(functions.get_cart, repositories, 'buyer');
+        const rejected = await callEndpoint(functions.checkout_cart, repositories, 'buyer');
+        const refreshed = await callEndpoint(functions.refresh_cart, repositories, 'buyer');
+        const {body: {order_id}} = await callEndpoint(functions.checkout_cart, repositories, 'buyer');
+
+        assert.equal(drifted.status, 200, JSON.stringify(drifted.body));
+        assert.deepEqual(drifted.body.lines.helmet.issues, ['price_changed']);
+        assert.equal(drifted.body.has_issues, true);
+        assert.equal(rejected.status, 409);
+        assert.equal(refreshed.body.has_issues, false);
+        assert.equal((await repositories.orders.get(order_id))?.total, 120);
+    });
+
+    it('changes the cart lines and their reservations together', async () => {
+        const repositories = createStoreRepositories();
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 2});
+
+        const rejected = await callEndpoint(functions.update_product_quantity_in_cart, repositories, 'buyer', {
+            product_id: 'helmet',
+            quantity: 6,
+        });
+        const cartAfterRejection = await repositories.carts.findPending('buyer');
+        const reservedAfterRejection = (await repositories.products.get('helmet'))?.reserved;
+        const removed = await callEndpoint(functions.remove_product_from_cart, repositories, 'buyer', {product_id: 'helmet'});
+
+        assert.equal(rejected.status, 400);
+        assert.equal(cartAfterRejection?.data.products.helmet.quantity, 2);
+        assert.equal(reservedAfterRejection, 2);
+        assert.equal(removed.status, 200, JSON.stringify(removed.body));
+        assert.deepEqual((await repositories.carts.findPending('buyer'))?.data.products, {});
+        assert.equal((await repositories.products.get('helmet'))?.reserved, 0);
+        assert.equal((await repositories.reservations.getAll([`${cartAfterRejection?.id}_helmet`])).size, 0);
+    });
+
+    it('releases the expired reservations, keeping their cart lines', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            products: {helmet: createProductData({reserved: 3})},
+            carts: {
+                cart: {
+                    owner: 'buyer',
+                    status: 'pending',
+                    products: {helmet: {product_id: 'helmet', variant_id: null, price: 100, quantity: 2}},
+                    product_ids: ['helmet'],
+                },
+            },
+            reservations: {
+                cart_helmet: {cart_id: 'cart', owner: 'buyer', product_id: 'helmet', variant_id: null, quantity: 2,
+                    expires_at: new Date(Date.now() - 1000)},
+                other_cart_helmet: {cart_id: 'other_cart', owner: 'other_buyer', product_id: 'helmet', variant_id: null,
+                    quantity: 1, expires_at: new Date(Date.now() + 60 * 1000)},
+            },
+        });
+
+        await functions.releaseExpiredReservations(repositories);
+
+        assert.equal((await repositories.products.get('helmet'))?.reserved, 1);
+        const reservationsData = await repositories.reservations.getAll(['cart_helmet', 'other_cart_helmet']);
+        assert.deepEqual([...reservationsData.keys()], ['other_cart_helmet']);
+        assert.equal((await repositories.carts.findPending('buyer'))?.data.products.helmet.quantity, 2);
+    });
+
+    it('rejects the users without the role of the endpoint', async () => {
+        const repositories = createStoreRepositories();
+        const {res, recorded} = createResponse();
+
+        await functions.add_product_to_cart.createHandler(repositories)(
+            createRequest('seller', {product_id: 'helmet', quantity: 1}),
+            res
+        );
+
+        assert.equal(recorded.status, 403);
+        assert.equal((await repositories.products.get('helmet'))?.reserved, 0);
+    });
+
+    it('only grants the known roles of the claim, and the default roles without a claim', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            accounts: {
+                unknown_role: {claims: {roles: ['superuser']}},
+                malformed_roles: {claims: {roles: 'admin'}},
+                no_roles: {claims: {}},
+            },
+            users: {seller: {first_name: 'Sam', last_name: 'Seller'}},
+            products: {helmet: createProductData()},
+        });
+        const body = {product_id: 'helmet', quantity: 1};
+
+        const unknownRole = await callEndpoint(functions.add_product_to_cart, repositories, 'unknown_role', body);
+        const malformedRoles = await callEndpoint(functions.add_product_to_cart, repositories, 'malformed_roles', body);
+        const noRoles = await callEndpoint(functions.add_product_to_cart, repositories, 'no_roles', body);
+
+        assert.equal(unknownRole.status, 403);
+        assert.equal(malformedRoles.status, 403);
+        assert.equal(noRoles.status, 200, JSON.stringify(noRoles.body));
+    });
+
+    it('rejects the unauthenticated requests', async () => {
+        const {res, recorded} = createResponse();
+
+        await functions.get_cart.createHandler(createStoreRepositories())(createRequest(null), res);
+
+        assert.equal(recorded.status, 401);
+    });
+});
+
+describe('request validation', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('reports every invalid field of the body at once', async () => {
+        const repositories = createStoreRepositories();
+
+        const invalid = await callEndpoint(functions.create_product, repositories, 'seller', {
+            description: 'Riding gloves',
+            price: -1,
+            active: 'yes',
+            brand: 'Honda',
+            tags: ['safety', ''],
+            sku: 'GLOVES',
+            color: 'black',
+        });
+
+        assert.equal(invalid.status, 400);
+        assert.deepEqual(invalid.body.details.map((error: {field: string, code: string}) => [error.field, error.code]), [
+            ['color', 'unknown_field'],
+            ['title', 'required'],
+            ['price', 'too_small'],
+            ['active', 'invalid_type'],
+            ['tags[1]', 'empty'],
+        ]);
+    });
+
+    it('coerces the numeric and boolean strings', async () => {
+        const repositories = createStoreRepositories();
+
+        const created = await callEndpoint(functions.create_product, repositories, 'seller', {title: 'Gloves',
+            description: 'Riding gloves', price: '30', stock: '10', active: 'true', brand: 'Honda', tags: [], sku: 'GLOVES'});
+
+        assert.equal(created.status, 200, JSON.stringify(created.body));
+        const productData = await repositories.products.get(created.body.product_id);
+        assert.equal(productData?.price, 30);
+        assert.equal(productData?.stock, 10);
+        assert.equal(productData?.active, true);
+    });
+});
+
+describe('admin endpoints', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('grants the moderator role, which can deactivate any product', async () => {
+        const repositories = createStoreRepositories();
+
+        const beforeGrant = await callEndpoint(functions.deactivate_product, repositories, 'buyer', {product_id: 'helmet'});
+        const notAdmin = await callEndpoint(functions.grant_role, repositories, 'seller', {uid: 'buyer', role: 'moderator'});
+        const granted = await callEndpoint(functions.grant_role, repositories, 'admin', {uid: 'buyer', role: 'moderator'});
+        const afterGrant = await callEndpoint(functions.deactivate_product, repositories, 'buyer', {product_id: 'helmet'});
+
+        assert.equal(beforeGrant.status, 403);
+        assert.equal(notAdmin.status, 403);
+        assert.deepEqual(granted.body.roles, ['buyer', 'moderator']);
+        assert.equal(afterGrant.status, 200, JSON.stringify(afterGrant.body));
+        assert.equal((await repositories.products.get('helmet'))?.active, false);
+    });
+
+    it('rejects the requests of the suspended users until they are unsuspended', async () => {
+        const repositories = createStoreRepositories();
+
+        const selfSuspended = await callEndpoint(functions.suspend_user, repositories, 'admin', {uid: 'admin'});
+        await callEndpoint(functions.suspend_user, repositories, 'admin', {uid: 'buyer'});
+        const whileSuspended = await callEndpoint(functions.get_cart, repositories, 'buyer');
+        await callEndpoint(functions.unsuspend_user, repositories, 'admin', {uid: 'buyer'});
+        const afterUnsuspended = await callEndpoint(functions.get_cart, repositories, 'buyer');
+
+        assert.equal(selfSuspended.status, 400);
+        assert.equal(whileSuspended.status, 403);
+        assert.notEqual(afterUnsuspended.status, 403);
+    });
+});
+
+describe('seller endpoints', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('counts the listed products of the seller', async () => {
+        const {res, recorded} = createResponse();
+
+        await functions.get_seller_profile.createHandler(createStoreRepositories())(
+            createRequest(null, {uid: 'seller'}),
+            res
+        );
+
+        assert.equal(recorded.status, 200, JSON.stringify(recorded.body));
+        assert.equal(recorded.body.product_count, 1);
+    });
+
+    it('hides the profiles of the users without the seller role', async () => {
+        const {res, recorded} = createResponse();
+
+        await functions.get_seller_profile.createHandler(createStoreRepositories())(
+            createRequest(null, {uid: 'buyer'}),
+            res
+        );
+
+        assert.equal(recorded.status, 404);
+    });
+});
+
+describe('cart sync', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('syncs the pending carts with the changes of the price and the stock only', async () => {
+        const repositories = createStoreRepositories();
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 2});
+        let syncedCount = 0;
+        const findPendingByProduct = repositories.carts.findPendingByProduct;
+        repositories.carts.findPendingByProduct = productId => {
+            syncedCount++;
+            return findPendingByProduct(productId);
+        };
+
+        // Update the product as a product update trigger would see it
+        async function updateProduct(fields: Record<string, unknown>) {
+            const beforeData = await repositories.products.get('helmet');
+            await repositories.products.update('helmet', fields);
+            await functions.syncCartsWithProductUpdate(repositories, 'helmet', beforeData ?? undefined,
+                (await repositories.products.get('helmet')) ?? undefined);
+        }
+
+        await updateProduct({reserved: 3, title: 'Full face helmet'});
+        const afterUnrelated = syncedCount;
+        await updateProduct({price: 120});
+        await updateProduct({stock: 2});
+
+        assert.equal(afterUnrelated, 0);
+        assert.equal(syncedCount, 2);
+        const cart = await repositories.carts.findPending('buyer');
+        assert.deepEqual(cart?.data.notices?.map(notice => [notice.issue, notice.action, notice.quantity]), [
+            ['price_changed', 'flag', 2],
+            ['over_stock', 'clamp', 1],
+        ]);
+        assert.equal(cart?.data.products.helmet.quantity, 1);
+    });
+});
+
+describe('product variants', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('prices and stocks a product from its variants, reserving the units of the variant in the cart', async () => {
+        const repositories = createStoreRepositories();
+        const created = await callEndpoint(functions.create_product, repositories, 'seller', {
+            title: 'Jacket',
+            description: 'Riding jacket',
+            active: true,
+            brand: 'Honda',
+            tags: ['apparel'],
+            sku: 'JACKET',
+            options: [{name: 'size', values: ['M', 'L']}],
+            variants: [
+                {sku: 'JACKET-M', options: {size: 'M'}, price: 90, stock: 2},
+                {sku: 'JACKET-L', options: {size: 'L'}, price: 110, stock: 3},
+            ],
+        });
+        const product_id = created.body.product_id;
+        const variants = Object.entries((await repositories.products.get(product_id))?.variants ?? {});
+        const [medium, large] = ['JACKET-M', 'JACKET-L'].map(sku => variants.find(([, variant]) => variant.sku === sku)?.[0]);
+
+        const withoutVariant = await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id, quantity: 1});
+        const overStock = await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id,
+            variant_id: medium, quantity: 3});
+        const added = await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id,
+            variant_id: large, quantity: 2});
+
+        assert.equal(created.status, 200, JSON.stringify(created.body));
+        const productData = await repositories.products.get(product_id);
+        assert.equal(productData?.price, 90);
+        assert.equal(productData?.stock, 5);
+        assert.equal(withoutVariant.status, 400);
+        assert.equal(overStock.status, 400);
+        assert.equal(added.status, 200, JSON.stringify(added.body));
+        assert.equal((await repositories.products.get(product_id))?.variants?.[large!].reserved, 2);
+        const cart = await repositories.carts.findPending('buyer');
+        assert.deepEqual(Object.keys(cart?.data.products ?? {}), [`${product_id}:${large}`]);
+        assert.equal(cart?.data.products[`${product_id}:${large}`].price, 110);
+    });
+});
+
+describe('product images', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('keeps the product image in sync with the first image of the gallery', async () => {
+        const images = ['front', 'side', 'back'].map(createImageData);
+        const repositories = functions.createInMemoryRepositories({
+            accounts: {seller: {claims: {roles: ['seller']}}, other_seller: {claims: {roles: ['seller']}}},
+            users: {seller: {first_name: 'Sam', last_name: 'Seller'}},
+            products: {helmet: createProductData({images, image_url: images[0].url})},
+        });
+
+        const notOwner = await callEndpoint(functions.set_primary_product_image, repositories, 'other_seller', {
+            product_id: 'helmet',
+            image_id: 'back',
+        });
+        const primary = await callEndpoint(functions.set_primary_product_image, repositories, 'seller', {
+            product_id: 'helmet',
+            image_id: 'back',
+        });
+        const incomplete = await callEndpoint(functions.reorder_product_images, repositories, 'seller', {
+            product_id: 'helmet',
+            image_ids: ['side', 'front'],
+        });
+        const reordered = await callEndpoint(functions.reorder_product_images, repositories, 'seller', {
+            product_id: 'helmet',
+            image_ids: ['side', 'front', 'back'],
+        });
+
+        assert.equal(notOwner.status, 403);
+        assert.equal(primary.status, 200, JSON.stringify(primary.body));
+        assert.equal(incomplete.status, 400);
+        assert.equal(reordered.status, 200, JSON.stringify(reordered.body));
+        const productData = await repositories.products.get('helmet');
+        assert.deepEqual(productData?.images?.map(image => image.id), ['side', 'front', 'back']);
+        assert.equal(productData?.image_url, images[1].url);
+    });
+});
+
+describe('logging', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('redacts the personal data and the credentials of the logged data', () => {
+        const redacted = functions.redactLogData({
+            headers: {Authorization: 'Bearer secret.token'},
+            body: {product_id: 'helmet', shipping_address: {city: 'Montevideo'}, note: 'Call bea@example.com'},
+            message: 'Invalid body: {"first_name":"Bea","quantity":2}',
+            created_at: new Date('2024-01-01T00:00:00Z'),
+        });
+
+        assert.deepEqual(redacted, {
+            headers: {Authorization: '[REDACTED]'},
+            body: {product_id: 'helmet', shipping_address: '[REDACTED]', note: 'Call [REDACTED]'},
+            message: 'Invalid body: {"first_name":"[REDACTED]","quantity":2}',
+            created_at: new Date('2024-01-01T00:00:00Z'),
+        });
+    });
+});
+
+describe('configuration', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('applies the defaults in the emulator', () => {
+        const config = functions.loadConfig({FUNCTIONS_EMULATOR: 'true'});
+
+        assert.equal(config.corsOrigins, true);
+        assert.equal(config.logLevel, 'DEBUG');
+        assert.equal(config.defaultPageSize, 10);
+        assert.equal(config.maxPageSize, 100);
+        assert.equal(config.stockReservationsEnabled, false);
+        assert.equal(config.rateLimitingEnabled, true);
+        assert.deepEqual(config.defaultRoles, ['buyer', 'seller']);
+    });
+
+    it('reads the settings from the environment', () => {
+        const config = functions.loadConfig({
+            CORS_ORIGINS: 'https://example.com, http://localhost:5173',
+            LOG_LEVEL: 'warning',
+            MAX_PAGE_SIZE: '50',
+            DEFAULT_PAGE_SIZE: '20',
+            STOCK_RESERVATIONS_ENABLED: 'true',
+            DEFAULT_ROLES: 'none',
+        });
+
+        assert.deepEqual(config.corsOrigins, ['https://example.com', 'http://localhost:5173']);
+        assert.equal(config.logLevel, 'WARNING');
+        assert.equal(config.defaultPageSize, 20);
+        assert.equal(config.maxPageSize, 50);
+        assert.equal(config.stockReservationsEnabled, true);
+        assert.deepEqual(config.defaultRoles, []);
+    });
+
+    it('reports every invalid setting at once', () => {
+        assert.throws(() => functions.loadConfig({
+            LOG_LEVEL: 'verbose',
+            MAX_PAGE_SIZE: '20',
+            DEFAULT_PAGE_SIZE: '50',
+            RATE_LIMITING_ENABLED: 'yes',
+            DEFAULT_ROLES: 'buyer,owner',
+        }), (error: Error) => {
+            assert.deepEqual(error.message.split('\n'), [
+                'Invalid configuration:',
+                '- LOG_LEVEL must be one of DEBUG, INFO, WARNING, ERROR',
+                '- DEFAULT_PAGE_SIZE must not be greater than MAX_PAGE_SIZE',
+                `- CORS_ORIGINS is required, as a comma-separated list of origins or '*' for any origin`,
+                '- RATE_LIMITING_ENABLED must be true or false',
+                `- DEFAULT_ROLES has an invalid role 'owner', roles are buyer, seller, moderator, admin`,
+            ]);
+            return true;
+        });
+    });
+
+    it('rejects the invalid CORS origins and page sizes', () => {
+        assert.throws(() => functions.loadConfig({CORS_ORIGINS: 'example.com', MAX_PAGE_SIZE: '0'}), (error: Error) => {
+            assert.match(error.message, /CORS_ORIGINS has an invalid origin 'example.com'/);
+            assert.match(error.message, /MAX_PAGE_SIZE must be an integer from 1 to 1000/);
+            return true;
+        });
+    });
+});
+
+describe('in-memory repositories', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('rejects the Firestore sentinels, which only Firestore applies', async () => {
+        const repositories = createStoreRepositories();
+
+        await assert.rejects(repositories.products.update('helmet', {stock: FieldValue.increment(1) as unknown as number}));
+    });
+});
+
+describe('repository endpoints', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('pages through my products with the page token', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            accounts: {seller: {claims: {roles: ['seller']}}},
+            products: {
+                first: createProductData({created_at: new Date('2024-01-01T00:00:00Z')}),
+                second: createProductData({created_at: new Date('2024-01-02T00:00:00Z')}),
+                third: createProductData({created_at: new Date('2024-01-03T00:00:00Z')}),
+            },
+        });
+
+        const firstPage = await callEndpoint(functions.get_my_products, repositories, 'seller', {limit: 2});
+        const secondPage = await callEndpoint(functions.get_my_products, repositories, 'seller', {
+            limit: 2,
+            page_token: firstPage.body.next_page_token,
+        });
+
+        assert.deepEqual(Object.keys(firstPage.body.products), ['third', 'second']);
+        assert.equal(firstPage.body.total_count, 3);
+        assert.deepEqual(Object.keys(secondPage.body.products), ['first']);
+        assert.equal(secondPage.body.next_page_token, null);
+    });
+
+    it('rejects the page tokens of another sort order, the malformed ones and the ones given with an offset', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            products: {first: createProductData(), second: createProductData()},
+        });
+        const firstPage = await callEndpoint(functions.get_latest_products, repositories, null, {limit: 1});
+        const page_token = firstPage.body.next_page_token;
+
+        const otherSort = await callEndpoint(functions.get_latest_products, repositories, null, {page_token, sort: 'price_asc'});
+        const malformed = await callEndpoint(functions.get_latest_products, repositories, null, {page_token: 'not-a-token'});
+        const withOffset = await callEndpoint(functions.get_latest_products, repositories, null, {page_token, offset: 1});
+
+        assert.equal(firstPage.status, 200, JSON.stringify(firstPage.body));
+        assert.equal(typeof page_token, 'string');
+        assert.equal(otherSort.status, 400);
+        assert.equal(malformed.status, 400);
+        assert.equal(withOffset.status, 400);
+    });
+
+    it('archives the removed products of their owner only', async () => {
+        const repositories = createStoreRepositories();
+
+        const forbidden = await callEndpoint(functions.remove_product, repositories, 'buyer', {product_id: 'helmet'});
+        const removed = await callEndpoint(functions.remove_product, repositories, 'seller', {product_id: 'helmet'});
+        const listing = await callEndpoint(functions.get_latest_products, repositories, null);
+
+        assert.equal(forbidden.status, 403);
+        assert.equal(removed.status, 200, JSON.stringify(removed.body));
+        assert.ok((await repositories.products.get('helmet'))?.deleted_at);
+        assert.deepEqual(listing.body.products, {});
+    });
+
+    it('restores the removed products within the retention window only', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            accounts: {seller: {claims: {roles: ['seller']}}},
+            users: {seller: {first_name: 'Sam', last_name: 'Seller'}},
+            products: {
+                helmet: createProductData(),
+                expired: createProductData({deleted_at: new Date('2024-01-01T00:00:00Z'), purge_at: new Date('2024-01-31T00:00:00Z')}),
+            },
+        });
+
+        await callEndpoint(functions.remove_product, repositories, 'seller', {product_id: 'helmet'});
+        const archived = await callEndpoint(functions.list_archived_products, repositories, 'seller');
+        const restored = await callEndpoint(functions.restore_product, repositories, 'seller', {product_id: 'helmet'});
+        const notArchived = await callEndpoint(functions.restore_product, repositories, 'seller', {product_id: 'helmet'});
+        const expired = await callEndpoint(functions.restore_product, repositories, 'seller', {product_id: 'expired'});
+
+        assert.deepEqual(Object.keys(archived.body.products), ['helmet', 'expired']);
+        assert.equal(restored.status, 200, JSON.stringify(restored.body));
+        assert.equal((await repositories.products.get('helmet'))?.deleted_at, null);
+        assert.equal(notArchived.status, 409);
+        assert.equal(expired.status, 409);
+    });
+
+    it('purges the products past the retention window, keeping the ordered ones as tombstones without images', async () => {
+        const archive = {deleted_at: new Date('2024-01-01T00:00:00Z'), purge_at: new Date('2024-01-31T00:00:00Z')};
+        const repositories = functions.createInMemoryRepositories({
+            products: {
+                helmet: createProductData({...archive, images: [createImageData('front')], image_url: 'front'}),
+                unsold: createProductData(archive),
+                recent: createProductData({...archive, purge_at: new Date(Date.now() + 60 * 1000)}),
+            },
+            orders: {order: createOrderData()},
+        });
+        const deletedPrefixes: string[] = [];
+
+        await functions.purgeDeletedProducts(repositories, async prefix => {
+            deletedPrefixes.push(prefix);
+        });
+
+        assert.deepEqual(deletedPrefixes.sort(), ['products/helmet/', 'products/unsold/']);
+        const tombstone = await repositories.products.get('helmet');
+        assert.deepEqual(tombstone?.images, []);
+        assert.equal(tombstone?.image_url, '');
+        assert.equal(tombstone?.purge_at, null);
+        assert.ok(tombstone?.purged_at);
+        assert.equal(await repositories.products.get('unsold'), null);
+        assert.notEqual(await repositories.products.get('recent'), null);
+    });
+
+    it('only shows the orders to their buyers', async () => {
+        const repositories = createStoreRepositories();
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1});
+        const {body: {order_id}} = await callEndpoint(functions.checkout_cart, repositories, 'buyer');
+
+        const own = await callEndpoint(functions.get_order_by_id, repositories, 'buyer', {order_id});
+        const other = await callEndpoint(functions.get_order_by_id, repositories, 'other_buyer', {order_id});
+        const listing = await callEndpoint(functions.list_my_orders, repositories, 'buyer');
+
+        assert.equal(own.status, 200, JSON.stringify(own.body));
+        assert.equal(own.body.order.total, 100);
+        assert.equal(other.status, 403);
+        assert.deepEqual(Object.keys(listing.body.orders), [order_id]);
+    });
+
+    it('pages through my orders newest first, without their items', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            accounts: {buyer: {claims: {roles: ['buyer']}}},
+            orders: {
+                first: createOrderData({created_at: new Date('2024-01-01T00:00:00Z')}),
+                second: createOrderData({created_at: new Date('2024-01-02T00:00:00Z')}),
+                third: createOrderData({created_at: new Date('2024-01-03T00:00:00Z')}),
+                other: createOrderData({owner: 'other_buyer'}),
+            },
+        });
+
+        const firstPage = await callEndpoint(functions.list_my_orders, repositories, 'buyer', {limit: 2});
+        const secondPage = await callEndpoint(functions.list_my_orders, repositories, 'buyer', {
+            limit: 2,
+            page_token: firstPage.body.next_page_token,
+        });
+        const missing = await callEndpoint(functions.get_order_by_id, repositories, 'buyer', {order_id: 'missing'});
+
+        assert.equal(firstPage.status, 200, JSON.stringify(firstPage.body));
+        assert.deepEqual(Object.keys(firstPage.body.orders), ['third', 'second']);
+        assert.equal(firstPage.body.orders.third.items, undefined);
+        assert.deepEqual(Object.keys(secondPage.body.orders), ['first']);
+        assert.equal(secondPage.body.next_page_token, null);
+        assert.equal(missing.status, 404);
+    });
+
+    it('only counts the lines of my products in my sales', async () => {
+        const glovesItem = {...createOrderData().items[0], product_id: 'gloves', sku: 'GLOVES', title: 'Gloves',
+            seller: 'other_seller', unit_price: 30, subtotal: 30, total: 30};
+        const repositories = functions.createInMemoryRepositories({
+            accounts: {seller: {claims: {roles: ['seller']}}},
+            orders: {
+                january: createOrderData({created_at: new Date('2024-01-15T00:00:00Z')}),
+                february: createOrderData({
+                    items: [{...createOrderData().items[0], quantity: 2, subtotal: 200, total: 180, discount: 20}, glovesItem],
+                    product_ids: ['helmet', 'gloves'],
+                    sellers: ['seller', 'other_seller'],
+                    created_at: new Date('2024-02-15T00:00:00Z'),
+                }),
+                other: createOrderData({items: [glovesItem], product_ids: ['gloves'], sellers: ['other_seller']}),
+            },
+        });
+
+        const sales = await callEndpoint(functions.get_my_sales, repositories, 'seller');
+        const summary = await callEndpoint(functions.get_my_sales_summary, repositories, 'seller', {group_by: 'month'});
+
+        assert.equal(sales.status, 200, JSON.stringify(sales.body));
+        assert.deepEqual(sales.body.sales.map((sale: {order_id: string}) => sale.order_id), ['february', 'january']);
+        assert.deepEqual(summary.body.totals, {units_sold: 3, revenue: 280});
+        assert.deepEqual(Object.keys(summary.body.products), ['helmet']);
+        assert.deepEqual(summary.body.periods['2024-02'], {units_sold: 2, revenue: 180});
+    });
+
+    it('only lets the buyers of a product review it', async () => {
+        const repositories = createStoreRepositories();
+        const review = {product_id: 'helmet', rating: 4, text: 'Fits well'};
+
+        const beforePurchase = await callEndpoint(functions.create_review, repositories, 'buyer', review);
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1});
+        await callEndpoint(functions.checkout_cart, repositories, 'buyer');
+        const afterPurchase = await callEndpoint(functions.create_review, repositories, 'buyer', review);
+        const duplicate = await callEndpoint(functions.create_review, repositories, 'buyer', review);
+
+        assert.equal(beforePurchase.status, 403);
+        assert.equal(afterPurchase.status, 200, JSON.stringify(afterPurchase.body));
+        assert.equal(duplicate.status, 409);
+        assert.equal((await repositories.products.get('helmet'))?.rating_average, 4);
+    });
+
+    it('keeps the rating of a product up to date as its reviews change', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            accounts: {
+                buyer: {claims: {roles: ['buyer']}},
+                other_buyer: {claims: {roles: ['buyer']}},
+                moderator: {claims: {roles: ['moderator']}},
+            },
+            products: {helmet: createProductData()},
+            orders: {
+                first: createOrderData(),
+                second: createOrderData({owner: 'other_buyer'}),
+            },
+        });
+
+        await callEndpoint(functions.create_review, repositories, 'buyer', {product_id: 'helmet', rating: 5, text: 'Great'});
+        await callEndpoint(functions.create_review, repositories, 'other_buyer', {product_id: 'helmet', rating: 2, text: 'Tight'});
+        const afterCreate = await repositories.products.get('helmet');
+        await callEndpoint(functions.update_review, repositories, 'other_buyer', {product_id: 'helmet', rating: 3});
+        const afterUpdate = await repositories.products.get('helmet');
+        const deleted = await callEndpoint(functions.delete_review, repositories, 'moderator', {product_id: 'helmet', owner: 'buyer'});
+        const afterDelete = await repositories.products.get('helmet');
+
+        assert.equal(afterCreate?.rating_average, 3.5);
+        assert.equal(afterUpdate?.rating_average, 4);
+        assert.equal(deleted.status, 200, JSON.stringify(deleted.body));
+        assert.equal(afterDelete?.rating_average, 3);
+        assert.equal(afterDelete?.rating_count, 1);
+    });
+
+    it('scrubs the orders of the deleted users', async () => {
+        const repositories = createStoreRepositories();
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1});
+        const {body: {order_id}} = await callEndpoint(functions.checkout_cart, repositories, 'buyer');
+
+        const deleted = await callEndpoint(functions.delete_user, repositories, 'buyer');
+
+        assert.equal(deleted.status, 200, JSON.stringify(deleted.body));
+        const orderData = await repositories.orders.get(order_id);
+        assert.equal(orderData?.owner, 'deleted_user');
+        assert.equal(orderData?.shipping_address, null);
+        assert.equal(await repositories.accounts.get('buyer'), null);
+        assert.equal(await repositories.users.get('buyer'), null);
+    });
+
+    it('keeps the reviews of the deleted users under anonymous owners', async () => {
+        const repositories = createStoreRepositories();
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1});
+        await callEndpoint(functions.checkout_cart, repositories, 'buyer');
+        await callEndpoint(functions.create_review, repositories, 'buyer', {product_id: 'helmet', rating: 4, text: 'Fits well'});
+
+        await callEndpoint(functions.delete_user, repositories, 'buyer');
+        const listing = await callEndpoint(functions.list_product_reviews, repositories, null, {product_id: 'helmet'});
+
+        const reviews = Object.values(listing.body.reviews) as { owner: string, rating: number }[];
+        assert.equal(reviews.length, 1);
+        assert.match(reviews[0].owner, /^deleted_user_/);
+        assert.equal(reviews[0].rating, 4);
+        assert.equal((await repositories.products.get('helmet'))?.rating_count, 1);
+    });
+
+    it('deactivates the products of the deleted sellers', async () => {
+        const repositories = createStoreRepositories();
+
+        const deleted = await callEndpoint(functions.delete_user, repositories, 'seller');
+
+        assert.equal(deleted.status, 200, JSON.stringify(deleted.body));
+        assert.equal((await repositories.products.get('helmet'))?.active, false);
+    });
+});
+
+describe('coupons', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('bounds the percentage of the coupons from 1 to 100', async () => {
+        const repositories = createStoreRepositories();
+        const body = {code: 'HALF', type: 'percentage', products: ['helmet']};
+
+        const tooLarge = await callEndpoint(functions.create_coupon, repositories, 'seller', {...body, value: 101});
+        const tooSmall = await callEndpoint(functions.create_coupon, repositories, 'seller', {...body, value: 0.5});
+        const fixed = await callEndpoint(functions.create_coupon, repositories, 'seller', {...body, type: 'fixed', value: 150});
+
+        assert.equal(tooLarge.status, 400);
+        assert.deepEqual(tooLarge.body.details.map((error: {field: string, code: string}) => [error.field, error.code]), [['value', 'too_large']]);
+        assert.equal(tooSmall.status, 400);
+        assert.equal(fixed.status, 200, JSON.stringify(fixed.body));
+    });
+
+    it('consumes a use of the coupon at checkout, up to the uses per user', async () => {
+        const repositories = createStoreRepositories();
+        await callEndpoint(functions.create_coupon, repositories, 'admin', {code: 'once', type: 'fixed', value: 15, max_uses_per_user: 1});
+
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1});
+        const applied = await callEndpoint(functions.apply_coupon_to_cart, repositories, 'buyer', {code: 'ONCE'});
+        const {body: {order_id}} = await callEndpoint(functions.checkout_cart, repositories, 'buyer');
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1});
+        const reapplied = await callEndpoint(functions.apply_coupon_to_cart, repositories, 'buyer', {code: 'ONCE'});
+
+        assert.equal(applied.status, 200, JSON.stringify(applied.body));
+        const orderData = await repositories.orders.get(order_id);
+        assert.equal(orderData?.coupon_code, 'ONCE');
+        assert.equal(orderData?.discount, 15);
+        assert.equal(orderData?.total, 85);
+        assert.equal((await repositories.coupons.get('ONCE'))?.uses, 1);
+        assert.equal(reapplied.status, 400);
+    });
+
+    it('limits the coupons of the sellers to their own products', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            accounts: {
+                seller: {claims: {roles: ['seller']}},
+                other_seller: {claims: {roles: ['seller']}},
+                buyer: {claims: {roles: ['buyer']}},
+            },
+            users: {
+                seller: {first_name: 'Sam', last_name: 'Seller'},
+                other_seller: {first_name: 'Oti', last_name: 'Other'},
+            },
+            products: {
+                helmet: createProductData(),
+                gloves: createProductData({title: 'Gloves', sku: 'GLOVES', owner: 'other_seller'}),
+            },
+        });
+
+        const byBrand = await callEndpoint(functions.create_coupon, repositories, 'seller', {code: 'HONDA', type: 'percentage', value: 10, brands: ['Honda']});
+        const foreign = await callEndpoint(functions.create_coupon, repositories, 'seller', {code: 'GLOVES', type: 'percentage', value: 10, products: ['gloves']});
+        const own = await callEndpoint(functions.create_coupon, repositories, 'seller', {code: 'HELMET', type: 'percentage', value: 10, products: ['helmet'], brands: ['Honda']});
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1});
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'gloves', quantity: 1});
+        const applied = await callEndpoint(functions.apply_coupon_to_cart, repositories, 'buyer', {code: 'HELMET'});
+
+        assert.equal(byBrand.status, 400);
+        assert.equal(foreign.status, 403);
+        assert.equal(own.status, 200, JSON.stringify(own.body));
+        assert.equal(applied.status, 200, JSON.stringify(applied.body));
+        assert.equal(applied.body.pricing.lines.helmet.discount, 10);
+        assert.equal(applied.body.pricing.lines.gloves.discount, 0);
+        assert.equal(applied.body.pricing.discount, 10);
+    });
+});
+
+describe('rate limiting', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('rejects the requests once the bucket of the user is empty', async () => {
+        const repositories = createStoreRepositories();
+
+        // The write group holds 20 requests
+        const statuses: number[] = [];
+        for (let i = 0; i < 21; i++) {
+            statuses.push((await callEndpoint(functions.clear_cart, repositories, 'buyer')).status);
+        }
+        const otherUser = await callEndpoint(functions.clear_cart, repositories, 'other_buyer');
+
+        assert.ok(statuses.slice(0, 20).every(status => status !== 429));
+        assert.equal(statuses[20], 429);
+        assert.notEqual(otherUser.status, 429);
+    });
+
+    it('limits the unauthenticated requests by IP address, telling when to retry', async () => {
+        const repositories = createStoreRepositories();
+
+        // The public group holds 30 requests
+        const statuses: number[] = [];
+        for (let i = 0; i < 30; i++) {
+            statuses.push((await callEndpoint(functions.get_latest_products, repositories, null)).status);
+        }
+        const limited = await callEndpoint(functions.get_latest_products, repositories, null);
+        const otherAddress = createResponse();
+        await functions.get_latest_products.createHandler(repositories)(
+            Object.assign(createRequest(null), {ip: '10.0.0.1'}),
+            otherAddress.res
+        );
+
+        assert.ok(statuses.every(status => status === 200));
+        assert.equal(limited.status, 429);
+        assert.equal(limited.body.details.retry_after, 2);
+        assert.equal(otherAddress.recorded.status, 200);
+    });
+
+    it('exempts the admins', async () => {
+        const repositories = createStoreRepositories();
+
+        for (let i = 0; i < 21; i++) {
+            assert.notEqual((await callEndpoint(functions.clear_cart, repositories, 'admin')).status, 429);
+        }
+    });
+});
+
+describe('idempotency keys', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('replays the response of a completed request', async () => {
+        const repositories = createStoreRepositories();
+        const body = {product_id: 'helmet', quantity: 2};
+        const headers = {'idempotency-key': 'add-helmet'};
+
+        const first = await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', body, headers);
+        const retry = await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', body, headers);
+
+        assert.equal(first.status, 200, JSON.stringify(first.body));
+        assert.equal(retry.status, 200);
+        assert.deepEqual(retry.body, first.body);
+        assert.equal((await repositories.products.get('helmet'))?.reserved, 2);
+    });
+
+    it('replays the client errors, even once the request would succeed', async () => {
+        const repositories = createStoreRepositories();
+        const body = {product_id: 'helmet', quantity: 8};
+
+        const first = await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', body, {'idempotency-key': 'add'});
+        await callEndpoint(functions.adjust_product_stock, repositories, 'admin', {product_id: 'helmet', delta: 5, reason: 'return'});
+        const retry = await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', body, {'idempotency-key': 'add'});
+        const newKey = await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', body, {'idempotency-key': 'add-again'});
+
+        assert.equal(first.status, 400);
+        assert.equal(retry.status, 400);
+        assert.deepEqual(retry.body, first.body);
+        assert.equal(newKey.status, 200, JSON.stringify(newKey.body));
+        assert.equal((await repositories.products.get('helmet'))?.reserved, 8);
+    });
+
+    it('rejects a key reused with a different request', async () => {
+        const repositories = createStoreRepositories();
+        const headers = {'idempotency-key': 'add-helmet'};
+
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1}, headers);
+        const reused = await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 3}, headers);
+
+        assert.equal(reused.status, 409);
+        assert.equal((await repositories.products.get('helmet'))?.reserved, 1);
+    });
+
+    it('keeps the keys of every user apart', async () => {
+        const repositories = createStoreRepositories();
+        const headers = {'idempotency-key': 'clear'};
+
+        await callEndpoint(functions.clear_cart, repositories, 'buyer', {}, headers);
+        const other = await callEndpoint(functions.add_product_to_cart, repositories, 'other_buyer', {product_id: 'helmet', quantity: 1}, headers);
+
+        assert.equal(other.status, 200, JSON.stringify(other.body));
+    });
+});
+
+describe('search endpoints', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('ranks the products matching the words of the query by the fields they are found in', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            products: {
+                helmet: createProductData({created_at: new Date('2024-01-01T00:00:00Z')}),
+                visor: createProductData({
+                    title: 'Visor',
+                    description: 'Clear visor for the helmet',
+                    tags: ['parts'],
+                    sku: 'VISOR',
+                    search_tokens: ['visor', 'honda', 'parts', 'clear', 'for', 'the', 'helmet'],
+                    created_at: new Date('2024-01-02T00:00:00Z'),
+                }),
+                gloves: createProductData({
+                    title: 'Gloves',
+                    description: 'Riding gloves',
+                    sku: 'GLOVES',
+                    search_tokens: ['gloves', 'honda', 'safety', 'riding'],
+                    created_at: new Date('2024-01-03T00:00:00Z'),
+                }),
+            },
+        });
+
+        const search = await callEndpoint(functions.search_products, repositories, null, {query: 'HÉLMET'});
+
+        assert.equal(search.status, 200, JSON.stringify(search.body));
+        assert.deepEqual(Object.keys(search.body.products), ['helmet', 'visor']);
+        assert.equal(search.body.total_count, 2);
+    });
+
+    it('finds the products of a category and of its subcategories, counting the facets of the matches', async () => {
+        const repositories = createStoreRepositories();
+        const apparel = await callEndpoint(functions.create_category, repositories, 'admin', {name: 'Apparel'});
+        const jackets = await callEndpoint(functions.create_category, repositories, 'admin', {name: 'Jackets',
+            parent_id: apparel.body.category_id});
+        const product = {description: 'Riding gear', price: 80, stock: 1, active: true, tags: ['apparel']};
+        await callEndpoint(functions.create_product, repositories, 'seller', {...product, title: 'Jacket', brand: 'Honda',
+            sku: 'JACKET', category_id: jackets.body.category_id});
+        await callEndpoint(functions.create_product, repositories, 'seller', {...product, title: 'Shirt', brand: 'Alpinestars',
+            sku: 'SHIRT', price: 20, category_id: apparel.body.category_id});
+
+        const search = await callEndpoint(functions.search_products, repositories, null, {category_id: apparel.body.category_id});
+        const byBrand = await callEndpoint(functions.search_products, repositories, null, {category_id: apparel.body.category_id,
+            brands: ['Honda']});
+
+        assert.equal(search.status, 200, JSON.stringify(search.body));
+        assert.equal(search.body.total_count, 2);
+        assert.deepEqual(search.body.facets.brands, {Honda: 1, Alpinestars: 1});
+        assert.deepEqual(search.body.facets.categories, {[apparel.body.category_id]: 2, [jackets.body.category_id]: 1});
+        assert.deepEqual((Object.values(byBrand.body.products) as { title: string }[]).map(product => product.title), ['Jacket']);
+    });
+
+    it('pages through the newest listed products with the page token', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            products: {
+                first: createProductData({created_at: new Date('2024-01-01T00:00:00Z')}),
+                second: createProductData({created_at: new Date('2024-01-02T00:00:00Z')}),
+                third: createProductData({created_at: new Date('2024-01-03T00:00:00Z')}),
+                removed: createProductData({
+                    created_at: new Date('2024-01-04T00:00:00Z'),
+                    deleted_at: new Date('2024-01-05T00:00:00Z'),
+                }),
+            },
+        });
+
+        const firstPage = await callEndpoint(functions.search_products, repositories, null, {limit: 2});
+        await repositories.products.update('third', {deleted_at: new Date('2024-01-06T00:00:00Z')});
+        const secondPage = await callEndpoint(functions.search_products, repositories, null, {
+            limit: 2,
+            page_token: firstPage.body.next_page_token,
+        });
+
+        assert.equal(firstPage.status, 200, JSON.stringify(firstPage.body));
+        assert.deepEqual(Object.keys(firstPage.body.products), ['third', 'second']);
+        assert.equal(firstPage.body.total_count, 3);
+        assert.deepEqual(Object.keys(secondPage.body.products), ['first']);
+        assert.equal(secondPage.body.next_page_token, null);
+    });
+
+    it('ranks the newest candidates only, flagging the truncated ones', async () => {
+        const products: Record<string, ReturnType<typeof createProductData>> = {};
+        for (let i = 0; i <= 500; i++) {
+            products[`product_${i}`] = createProductData({created_at: new Date(Date.UTC(2024, 0, 1, 0, 0, i))});
+        }
+        const repositories = functions.createInMemoryRepositories({products});
+
+        const search = await callEndpoint(functions.search_products, repositories, null, {query: 'helmet', limit: 1});
+
+        assert.equal(search.status, 200, JSON.stringify(search.body));
+        assert.equal(search.body.candidates_truncated, true);
+        assert.equal(search.body.total_count, 500);
+        assert.equal(search.body.facets.brands.Honda, 500);
+        assert.deepEqual(Object.keys(search.body.products), ['product_500']);
+    });
+});
+
+describe('stock ledger', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('records the sales and the adjustments in the ledger of the product', async () => {
+        const repositories = createStoreRepositories();
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 2});
+        await callEndpoint(functions.checkout_cart, repositories, 'buyer');
+
+        const negative = await callEndpoint(functions.adjust_product_stock, repositories, 'admin', {product_id: 'helmet',
+            delta: -4, reason: 'admin_correction'});
+        const adjusted = await callEndpoint(functions.adjust_product_stock, repositories, 'admin', {product_id: 'helmet',
+            delta: 1, reason: 'return', note: 'Returned unopened'});
+        const sales = await callEndpoint(functions.list_product_stock_movements, repositories, 'seller', {product_id: 'helmet',
+            reason: 'sale'});
+        const returns = await callEndpoint(functions.list_product_stock_movements, repositories, 'seller', {product_id: 'helmet',
+            reason: 'return'});
+
+        assert.equal(negative.status, 400);
+        assert.equal(adjusted.body.stock, 4);
+        const [sale] = Object.values(sales.body.movements) as { delta: number, stock_after: number, order_id: string }[];
+        assert.equal(Object.keys(sales.body.movements).length, 1);
+        assert.equal(sale.delta, -2);
+        assert.equal(sale.stock_after, 3);
+        assert.equal(typeof sale.order_id, 'string');
+        const [returned] = Object.values(returns.body.movements) as { actor: string, note: string }[];
+        assert.equal(returned.actor, 'admin');
+        assert.equal(returned.note, 'Returned unopened');
+        assert.equal((await repositories.products.get('helmet'))?.stock, 4);
+    });
+
+    it('reports the stock as recomputed from the ledger once applied', async () => {
+        const repositories = functions.createInMemoryRepositories({
+            accounts: {admin: {claims: {roles: ['admin']}}},
+            products: {helmet: createProductData({stock: 7})},
+            stockMovements: {
+                initial: {
+                    product_id: 'helmet',
+                    variant_id: null,
+                    delta: 5,
+                    reserved_delta: 0,
+                    stock_after: 5,
+                    reserved_after: 0,
+                    reason: 'initial',
+                    actor: 'seller',
+                    order_id: null,
+                    cart_id: null,
+                    note: null,
+                    created_at: new Date('2024-01-01T00:00:00Z'),
+                },
+            },
+        });
+
+        const dryRun = await callEndpoint(functions.recompute_product_stock, repositories, 'admin', {product_id: 'helmet'});
+        const applied = await callEndpoint(functions.recompute_product_stock, repositories, 'admin', {
+            product_id: 'helmet',
+            apply: true,
+        });
+
+        assert.equal(dryRun.status, 200, JSON.stringify(dryRun.body));
+        assert.equal(dryRun.body.consistent, false);
+        assert.equal(dryRun.body.applied, false);
+        assert.equal(dryRun.body.stock_delta, 0);
+        assert.equal(applied.body.was_consistent, false);
+        assert.equal(applied.body.consistent, true);
+        assert.equal(applied.body.applied, true);
+        assert.equal(applied.body.stock, 5);
+        assert.equal(applied.body.stock_delta, -2);
+        assert.equal((await repositories.products.get('helmet'))?.stock, 5);
+    });
+});
+
+describe('openapi document', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('documents every endpoint and route with the schemas it references', () => {
+        const document = functions.getOpenApiDocument('https://example.com');
+        const schemaNames = Object.keys(document.components.schemas);
+
+        const missingSchemas = getReferencedSchemas(document).filter(name => !schemaNames.includes(name));
+        const createProduct = document.paths['/api/products'].post as { responses: Record<string, unknown> };
+        const getProduct = document.paths['/api/products/{id}'].get as { parameters: { name: string, in: string }[] };
+
+        assert.deepEqual([...new Set(missingSchemas)], []);
+        assert.ok(document.paths['/create_product'].post);
+        assert.ok(createProduct.responses['201']);
+        assert.equal(createProduct.responses['200'], undefined);
+        assert.deepEqual(getProduct.parameters.map(parameter => [parameter.name, parameter.in]), [['id', 'path']]);
+    });
+});
+
+describe('api routes', () => {
+    before(async () => {
+        functions = await import('./index.js');
+    });
+
+    it('routes the requests by path and method, merging the path parameters into the body', async () => {
+        const repositories = createStoreRepositories();
+        const api = functions.api.createHandler(repositories);
+        const product = createResponse();
+        const removed = createResponse();
+        const notFound = createResponse();
+        const notAllowed = createResponse();
+
+        await api(createApiRequest('buyer', 'GET', '/products/helmet', {}, {product_id: 'other'}), product.res);
+        await api(createApiRequest('seller', 'DELETE', '/products/helmet'), removed.res);
+        await api(createApiRequest(null, 'GET', '/wishlist'), notFound.res);
+        await api(createApiRequest('buyer', 'DELETE', '/cart/refresh'), notAllowed.res);
+
+        assert.equal(product.recorded.status, 200, JSON.stringify(product.recorded.body));
+        assert.equal(product.recorded.body.product.title, 'Helmet');
+        assert.equal(removed.recorded.status, 204);
+        assert.ok((await repositories.products.get('helmet'))?.deleted_at);
+        assert.equal(notFound.recorded.status, 404);
+        assert.equal(notAllowed.recorded.status, 405);
+        assert.deepEqual(notAllowed.recorded.body.details, {allowed_methods: ['POST']});
+    });
+
+    it('sends the status of the route, without a body when there is no content', async () => {
+        const repositories = createStoreRepositories();
+        await callEndpoint(functions.add_product_to_cart, repositories, 'buyer', {product_id: 'helmet', quantity: 1});
+        const {res, recorded} = createResponse();
+
+        await functions.remove_product_from_cart.createHandler(repositories, 204)(
+            createRequest('buyer', {product_id: 'helmet'}),
+            res
+        );
+
+        assert.equal(recorded.status, 204);
+        assert.equal(recorded.body, undefined);
+    });
+
+    it('returns the ID of the created product, replaying it with the status of the route', async () => {
+        const repositories = createStoreRepositories();
+        const body = {title: 'Gloves', description: 'Riding gloves', price: 30, stock: 10, active: true, brand: 'Honda',
+            tags: ['safety'], sku: 'GLOVES'};
+        const headers = {'idempotency-key': 'create-gloves'};
+        const first = createResponse();
+        const retry = createResponse();
+
+        await functions.create_product.createHandler(repositories, 201)(createRequest('seller', body, headers), first.res);
+        await functions.create_product.createHandler(repositories, 201)(createRequest('seller', body, headers), retry.res);
+
+        assert.equal(first.recorded.status, 201, JSON.stringify(first.recorded.body));
+        assert.equal((await repositories.products.get(first.recorded.body.product_id))?.title, 'Gloves');
+        assert.equal(retry.recorded.status, 201);
+        assert.deepEqual(retry.recorded.body, first.recorded.body);
+    });
+});
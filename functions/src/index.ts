@@ -1,89 +1,592 @@
-import {cert, initializeApp, ServiceAccount} from 'firebase-admin/app';
-import {DocumentReference, Firestore, getFirestore} from 'firebase-admin/firestore';
-import serviceAccount from '../../uru-frameworks-honda-store-firebase-adminsdk.json';
-import config from '../../config.json'
+import {initializeApp} from 'firebase-admin/app';
+import {
+    CollectionReference,
+    DocumentReference,
+    DocumentSnapshot,
+    FieldPath,
+    FieldValue,
+    Firestore,
+    getFirestore,
+    Query,
+    Timestamp,
+    Transaction
+} from 'firebase-admin/firestore';
 import {Logging} from '@google-cloud/logging';
 import {onRequest} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {onDocumentDeleted, onDocumentUpdated} from "firebase-functions/v2/firestore";
+import {defineString} from "firebase-functions/params";
 import {Request, Response} from "express"
-import {DecodedIdToken, getAuth} from "firebase-admin/auth";
+import {Auth, DecodedIdToken, getAuth} from "firebase-admin/auth";
+import {getStorage} from "firebase-admin/storage";
 import cors from 'cors'
+import {createHash, randomBytes} from 'crypto';
+import {AsyncLocalStorage} from 'async_hooks';
+import {isDeepStrictEqual} from 'util';
+
+// --- CONFIGURATION
+
+// Runtime configuration, read from the environment variables, which the deployed functions and the emulator load
+// from the .env files of the functions
+type ConfigData = {
+    corsOrigins: string[] | true, // true to allow any origin
+    logLevel: LogSeverity, // Minimum severity of the log entries written, DEBUG also logs every request
+    databaseId: string,
+    storageBucket: string | undefined,
+    defaultPageSize: number,
+    maxPageSize: number,
+    stockReservationsEnabled: boolean, // Reserve the units of the pending carts until they expire
+    rateLimitingEnabled: boolean, // Throttle the endpoints with the token bucket policies of their groups
+    defaultRoles: Role[], // Roles of the users without a 'roles' custom claim
+}
+
+// Firestore database ID param, also needed to deploy the Firestore triggers
+const DATABASE_ID = defineString('DATABASE_ID', {
+    default: '(default)',
+    description: 'ID of the Firestore database',
+});
+
+// Read a string environment variable, empty values are treated as missing
+function readStringEnv(env: NodeJS.ProcessEnv, name: string) {
+    const value = env[name]?.trim();
+    return value === undefined || value === '' ? null : value;
+}
+
+// Read a boolean environment variable, which must be 'true' or 'false'
+function readBooleanEnv(env: NodeJS.ProcessEnv, name: string, defaultValue: boolean, errors: string[]) {
+    const value = readStringEnv(env, name);
+    if (value === null) {
+        return defaultValue;
+    }
+    if (value !== 'true' && value !== 'false') {
+        errors.push(`${name} must be true or false`);
+        return defaultValue;
+    }
+    return value === 'true';
+}
+
+// Read an integer environment variable within some bounds
+function readIntegerEnv(env: NodeJS.ProcessEnv, name: string, defaultValue: number, min: number, max: number, errors: string[]) {
+    const value = readStringEnv(env, name);
+    if (value === null) {
+        return defaultValue;
+    }
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < min || number > max) {
+        errors.push(`${name} must be an integer from ${min} to ${max}`);
+        return defaultValue;
+    }
+    return number;
+}
+
+// Read the allowed CORS origins, a comma-separated list of origins or '*' for any origin. Any origin is allowed in
+// the emulator by default, the deployed functions must list them
+function readCorsOriginsEnv(env: NodeJS.ProcessEnv, emulator: boolean, errors: string[]): string[] | true {
+    const value = readStringEnv(env, 'CORS_ORIGINS');
+    if (value === null) {
+        if (!emulator) {
+            errors.push(`CORS_ORIGINS is required, as a comma-separated list of origins or '*' for any origin`);
+        }
+        return true;
+    }
+    if (value === '*') {
+        return true;
+    }
+
+    const origins = value.split(',').map(origin => origin.trim());
+    origins.filter(origin => !/^https?:\/\/[^/\s]+$/.test(origin)).forEach(origin => {
+        errors.push(`CORS_ORIGINS has an invalid origin '${origin}', such as https://example.com`);
+    });
+    return origins;
+}
+
+// Read the default roles, a comma-separated list of roles or 'none' for no roles. Every user without roles can buy and
+// sell by default
+function readDefaultRolesEnv(env: NodeJS.ProcessEnv, errors: string[]): Role[] {
+    const value = readStringEnv(env, 'DEFAULT_ROLES');
+    if (value === null) {
+        return ['buyer', 'seller'];
+    }
+    if (value === 'none') {
+        return [];
+    }
+
+    const roles = value.split(',').map(role => role.trim());
+    roles.filter(role => !isRole(role)).forEach(role => {
+        errors.push(`DEFAULT_ROLES has an invalid role '${role}', roles are ${ROLES.join(', ')}`);
+    });
+    return roles.filter(isRole);
+}
+
+// Load the runtime configuration, reporting every invalid setting at once so a misconfigured deployment fails on
+// cold start
+export function loadConfig(env: NodeJS.ProcessEnv): ConfigData {
+    const errors: string[] = [];
+    const emulator = env.FUNCTIONS_EMULATOR === 'true';
+
+    const logLevel = readStringEnv(env, 'LOG_LEVEL')?.toUpperCase() ?? (emulator ? 'DEBUG' : 'INFO');
+    if (!(LOG_SEVERITIES as readonly string[]).includes(logLevel)) {
+        errors.push(`LOG_LEVEL must be one of ${LOG_SEVERITIES.join(', ')}`);
+    }
+
+    const maxPageSize = readIntegerEnv(env, 'MAX_PAGE_SIZE', 100, 1, 1000, errors);
+    const defaultPageSize = readIntegerEnv(env, 'DEFAULT_PAGE_SIZE', 10, 1, 1000, errors);
+    if (defaultPageSize > maxPageSize) {
+        errors.push(`DEFAULT_PAGE_SIZE must not be greater than MAX_PAGE_SIZE`);
+    }
+
+    const config: ConfigData = {
+        corsOrigins: readCorsOriginsEnv(env, emulator, errors),
+        logLevel: logLevel as LogSeverity,
+        databaseId: readStringEnv(env, 'DATABASE_ID') ?? '(default)',
+        storageBucket: readStringEnv(env, 'STORAGE_BUCKET') ?? JSON.parse(env.FIREBASE_CONFIG ?? '{}').storageBucket,
+        defaultPageSize,
+        maxPageSize,
+        stockReservationsEnabled: readBooleanEnv(env, 'STOCK_RESERVATIONS_ENABLED', false, errors),
+        rateLimitingEnabled: readBooleanEnv(env, 'RATE_LIMITING_ENABLED', true, errors),
+        defaultRoles: readDefaultRolesEnv(env, errors),
+    };
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid configuration:\n- ${errors.join('\n- ')}`);
+    }
+    return config;
+}
+
+// Log severities, from the least to the most severe
+const LOG_SEVERITIES = ['DEBUG', 'INFO', 'WARNING', 'ERROR'] as const;
+
+// Every user role
+const ROLES: readonly Role[] = ['buyer', 'seller', 'moderator', 'admin'];
+
+// Runtime configuration, loaded on cold start
+const CONFIG = loadConfig(process.env);
+
+// Fields redacted from the logged data and from the JSON logged in the messages, matched case-insensitively
+const LOG_REDACTED_FIELDS = [
+    'authorization', 'cookie', 'password', 'token', 'id_token', 'refresh_token', 'upload_url',
+    'first_name', 'last_name', 'email', 'phone', 'address', 'addresses', 'shipping_address', 'recipient', 'line1',
+    'line2', 'city', 'region', 'postal_code',
+];
+
+// Token bucket policies of the endpoint groups, a bucket holds up to 'capacity' requests and refills continuously
+const RATE_LIMIT_POLICIES: Record<RateLimitGroup, RateLimitPolicyData> = {
+    read: {capacity: 60, refill_per_minute: 60},
+    write: {capacity: 20, refill_per_minute: 10},
+    public: {capacity: 30, refill_per_minute: 30},
+};
+
+// Hours the response of an idempotent request is kept to be replayed
+const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+// Seconds a request holds its idempotency key, after which the key is considered abandoned
+const IDEMPOTENCY_KEY_LOCK_SECONDS = 60;
+
+// Maximum length of an idempotency key
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// Minutes a stock reservation is held since the cart line was last changed
+const STOCK_RESERVATION_TTL_MINUTES = 30;
+
+// Maximum number of expired stock reservations released per sweep
+const MAX_RELEASED_RESERVATIONS_PER_SWEEP = 500;
+
+// Maximum number of products ranked by a search query
+const MAX_SEARCH_CANDIDATES = 500;
+
+// Maximum number of query tokens, limited by Firestore 'array-contains-any'
+const MAX_SEARCH_QUERY_TOKENS = 30;
+
+// Maximum number of disjunctions of a Firestore query, the values of its 'in' filter times the ones of its
+// 'array-contains-any' filter
+const MAX_QUERY_DISJUNCTIONS = 30;
+
+// Lower bounds of the price buckets of the search facets, the last bucket has no upper bound
+const PRICE_FACET_BOUNDS = [0, 25, 50, 100, 250, 500, 1000];
 
-// Set to true to enable logging
-const DEBUG = true;
+// Maximum depth of the category tree
+const MAX_CATEGORY_DEPTH = 5;
+
+// Content types accepted for the product images
+const PRODUCT_IMAGE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+
+// Maximum size of a product image, in bytes
+const MAX_PRODUCT_IMAGE_SIZE = 5 * 1024 * 1024;
+
+// Maximum number of images in the gallery of a product
+const MAX_PRODUCT_IMAGES = 10;
+
+// Minutes an image upload target is valid
+const PRODUCT_IMAGE_UPLOAD_TTL_MINUTES = 15;
+
+// Days a removed product can be restored before it's purged
+const PRODUCT_RETENTION_DAYS = 30;
+
+// Maximum number of removed products purged per sweep
+const MAX_PURGED_PRODUCTS_PER_SWEEP = 100;
+
+// gRPC status code of the Firestore writes failing because the document already exists
+const GRPC_ALREADY_EXISTS = 6;
+
+// Maximum number of documents read by a migration per run
+const MAX_MIGRATED_DOCUMENTS_PER_RUN = 500;
+
+// Maximum number of notices kept in a cart, the oldest are dropped first
+const MAX_CART_NOTICES = 20;
+
+// Maximum number of addresses in the address book of a user
+const MAX_ADDRESSES = 10;
+
+// Owner of the orders of the deleted users, which are kept for the records of the sellers
+const DELETED_USER_OWNER = 'deleted_user';
+
+// Maximum number of writes of a Firestore batch
+const MAX_BATCH_WRITES = 500;
 
 // --- CORS
 
 // Initialize CORS middleware
 const corsHandler = cors({
-    origin: true, // Allow all origins. You can specify a specific origin or an array of origins.
-    methods: ['GET', 'POST', 'PUT', 'DELETE'], // Allowed HTTP methods
-    allowedHeaders: ['Content-Type', 'Authorization'], // Allowed headers
+    origin: CONFIG.corsOrigins, // Allowed origins, from the configuration
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'], // Allowed HTTP methods
+    allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key', 'X-Correlation-Id'], // Allowed headers
+    exposedHeaders: ['Retry-After', 'Idempotent-Replayed', 'X-Correlation-Id'], // Headers readable by the clients
     credentials: true, // Allow credentials
 });
 
-// On request with CORS middleware
-function onRequestWithCORS(fn: (req: Request, res: Response) => void | Promise<void>) {
-    return onRequest(async (req, res) => {
-        // Log the request only if DEBUG is true
-        if (DEBUG) {
-            logInfo(`Request body: ${JSON.stringify(req.body)}`);
-            logInfo(`Request headers: ${JSON.stringify(req.headers)}`);
-        }
+// Roles allowed to call an endpoint, 'user' for any authenticated user or null for public endpoints
+type EndpointAuth = Role[] | 'user' | null
+
+// Endpoint definition, from which the OpenAPI document is generated and the authorization is enforced
+type EndpointDefinitionData = {
+    name: string,
+    summary: string,
+    auth: EndpointAuth,
+    rateLimit: RateLimitGroup,
+    idempotent?: boolean, // Replay the response of the mutating requests retried with the same idempotency key
+    body: RequestSchema,
+    response: OpenApiSchemaData,
+    errors?: number[], // Error status codes besides the validation, authorization, rate limit and internal errors
+}
 
-        // Call the CORS middleware
-        corsHandler(req, res, async () => {
-            // Check if it's a promise
-            if (fn.constructor.name === 'AsyncFunction') {
-                await fn(req, res);
-            } else {
-                fn(req, res);
-            }
+// Definitions of every endpoint, registered when the endpoint is created
+const ENDPOINT_DEFINITIONS: EndpointDefinitionData[] = [];
+
+// On request with CORS middleware, the request is logged with its correlation ID, which is sent back in a header
+function onRequestWithCORS(name: string, fn: (req: Request, res: Response) => void | Promise<void>) {
+    return onRequest(async (req, res) => {
+        const context: LogContextData = {correlation_id: getCorrelationId(req), endpoint: name, uid: null};
+        res.set('X-Correlation-Id', context.correlation_id);
+
+        await logContext.run(context, async () => {
+            const startedAt = Date.now();
+            logDebug(`Request received`, {method: req.method, path: req.path, headers: req.headers, body: req.body});
+
+            // Log the outcome of the request once the response is sent
+            res.on('finish', () => logContext.run(context, () => logInfo(`Request completed`, {
+                method: req.method,
+                path: req.path,
+                status: res.statusCode,
+                latency_ms: Date.now() - startedAt,
+            })));
+
+            // Call the CORS middleware
+            corsHandler(req, res, async () => {
+                // Check if it's a promise
+                if (fn.constructor.name === 'AsyncFunction') {
+                    await fn(req, res);
+                } else {
+                    fn(req, res);
+                }
+            });
         });
     })
 }
 
+// Endpoint handler, the repositories are injected so the handler can run over other implementations, and the
+// decoded ID token is the one of the user authorized by the endpoint definition. It returns the response body
+type EndpointHandler<A extends EndpointAuth> = (req: Request, res: Response, repositories: Repositories,
+                                                decodedIdToken: A extends null ? null : DecodedIdToken) => Promise<unknown>
+
+// Endpoint response data
+type EndpointResponseData = {
+    status: number,
+    body: unknown,
+}
+
+// Send an endpoint response, without a body when there's no content
+function sendEndpointResponse(res: Response, response: EndpointResponseData) {
+    if (response.status === 204) {
+        res.status(204).send();
+    } else {
+        res.status(response.status).send(response.body);
+    }
+}
+
+// Check the authentication and the roles required by the endpoint definition
+async function checkEndpointAuth<A extends EndpointAuth>(req: Request, repositories: Repositories, endpointAuth: A) {
+    if (endpointAuth === null) {
+        return null as A extends null ? null : DecodedIdToken;
+    }
+    const decodedIdToken = endpointAuth === 'user'
+        ? await checkAuth(req, repositories)
+        : await checkAuthorization(req, repositories, endpointAuth);
+    return decodedIdToken as A extends null ? null : DecodedIdToken;
+}
+
+// Endpoint on request with CORS middleware, throttled by the rate limit of its group, authorized by its definition and
+// replaying the responses of the requests retried with the same idempotency key if it's idempotent. The definition is
+// kept for the OpenAPI document, and 'createHandler' gets the handler over other repositories, as the API router does.
+// The response body is sent with the success status, 200 unless the API route has its own
+function defineEndpoint<A extends EndpointAuth>(definition: EndpointDefinitionData & {auth: A}, fn: EndpointHandler<A>) {
+    ENDPOINT_DEFINITIONS.push(definition);
+    const createHandler = (repositories: Repositories, successStatus = 200) => handleRequestError(async (req: Request, res: Response) => {
+        updateLogContext({endpoint: definition.name});
+        await checkRateLimit(req, res, repositories, definition.rateLimit);
+        const decodedIdToken = await checkEndpointAuth(req, repositories, definition.auth);
+        const handle = async () => ({status: successStatus, body: await fn(req, res, repositories, decodedIdToken)});
+        sendEndpointResponse(res, definition.idempotent
+            ? await handleIdempotentRequest(req, res, repositories, definition.name, handle)
+            : await handle());
+    });
+
+    // The Firestore repositories are created once the module is loaded
+    const handler = (req: Request, res: Response) => createHandler(firestoreRepositories)(req, res);
+    return Object.assign(onRequestWithCORS(definition.name, handler), {definition, createHandler});
+}
+
 // --- LOGGING
 
 // Initialize Google Cloud Logging
 const logging = new Logging();
 const log = logging.log('cloud-functions-log');
 
-// Helper function to log messages
-function logMessage(message: string, severity: 'INFO' | 'ERROR' | 'WARNING' = 'INFO') {
-    if (DEBUG) {
-        const entry = log.entry({severity}, {message});
-        log.write(entry).catch(console.error);
+// Log severity
+type LogSeverity = typeof LOG_SEVERITIES[number]
+
+// Log context data of a request, added to every entry logged while handling it
+type LogContextData = {
+    correlation_id: string,
+    endpoint: string,
+    uid: string | null,
+}
+
+// Log context of the request being handled
+const logContext = new AsyncLocalStorage<LogContextData>();
+
+// Get the correlation ID of a request, the one given by the client is kept if it's valid
+function getCorrelationId(req: Request) {
+    const correlationId = req.get('X-Correlation-Id');
+    return correlationId !== undefined && /^[\w-]{1,128}$/.test(correlationId) ? correlationId : randomBytes(16).toString('hex');
+}
+
+// Update the log context of the request being handled, such as with the authenticated user
+function updateLogContext(fields: Partial<LogContextData>) {
+    const context = logContext.getStore();
+    if (context !== undefined) {
+        Object.assign(context, fields);
+    }
+}
+
+// Redact the bearer tokens, the email addresses and the redacted fields of the JSON found in a text
+function redactLogText(text: string) {
+    const fieldsPattern = LOG_REDACTED_FIELDS.join('|');
+    return text
+        .replace(/Bearer\s+[\w.-]+/gi, 'Bearer [REDACTED]')
+        .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, '[REDACTED]')
+        .replace(new RegExp(`"(${fieldsPattern})"\\s*:\\s*("(?:[^"\\\\]|\\\\.)*"|[^,}\\]]+)`, 'gi'), '"$1":"[REDACTED]"');
+}
+
+// Redact the redacted fields of logged data, and the texts it contains
+export function redactLogData(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return redactLogText(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(redactLogData);
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Date) && !(value instanceof Timestamp)) {
+        const redacted: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            redacted[key] = LOG_REDACTED_FIELDS.includes(key.toLowerCase()) ? '[REDACTED]' : redactLogData(item);
+        }
+        return redacted;
+    }
+    return value;
+}
+
+// Helper function to log structured messages, with the log context of the request being handled
+function logMessage(message: string, severity: LogSeverity = 'INFO', data: Record<string, unknown> = {}) {
+    if (LOG_SEVERITIES.indexOf(severity) < LOG_SEVERITIES.indexOf(CONFIG.logLevel)) {
+        return;
     }
+
+    const context = logContext.getStore();
+    const entry = log.entry(
+        context !== undefined ? {severity, labels: {correlation_id: context.correlation_id}} : {severity},
+        {message: redactLogText(message), ...context, ...(redactLogData(data) as Record<string, unknown>)}
+    );
+    log.write(entry).catch(console.error);
+}
+
+// Helper function to log debugging information
+function logDebug(message: string, data?: Record<string, unknown>) {
+    logMessage(message, 'DEBUG', data);
 }
 
 // Helper function to log information
-function logInfo(message: string) {
-    logMessage(message, 'INFO');
+function logInfo(message: string, data?: Record<string, unknown>) {
+    logMessage(message, 'INFO', data);
 }
 
 // Helper function to log warning
-function logWarning(message: string) {
-    logMessage(message, 'WARNING');
+function logWarning(message: string, data?: Record<string, unknown>) {
+    logMessage(message, 'WARNING', data);
+}
+
+// Helper function to log an unexpected error, with its stack trace
+function logError(message: string, error: unknown, data?: Record<string, unknown>) {
+    logMessage(message, 'ERROR', {
+        ...data,
+        error: `${error}`,
+        stack_trace: error instanceof Error ? error.stack : undefined,
+    });
+}
+
+// User role, stored in the 'roles' custom claim of Firebase Auth
+type Role = 'buyer' | 'seller' | 'moderator' | 'admin'
+
+// Endpoint group sharing a rate limit policy. The write group holds the mutating endpoints, which accept an
+// idempotency key, and the public group the endpoints callable without auth
+type RateLimitGroup = 'read' | 'write' | 'public'
+
+// Token bucket policy of a rate limit
+type RateLimitPolicyData = {
+    capacity: number,
+    refill_per_minute: number,
+}
+
+// Token bucket data of a user or of an IP address in an endpoint group, deleted by the TTL policy on 'expires_at' of
+// firestore.indexes.json once it expires
+type RateLimitBucketData = {
+    tokens: number,
+    updated_at: Date | Timestamp,
+    expires_at: Date | Timestamp,
+}
+
+// Idempotency key data of a user, holding the response to replay once the request is completed. It's deleted by the
+// TTL policy on 'expires_at' of firestore.indexes.json once it expires
+type IdempotencyKeyData = {
+    owner: string,
+    key: string,
+    endpoint: string,
+    fingerprint: string,
+    status: 'in_progress' | 'completed',
+    response_status: number | null,
+    response_body: string | null,
+    locked_until: Date | Timestamp,
+    expires_at: Date | Timestamp,
+    created_at: Date | Timestamp,
+}
+
+// Shipping address data
+type AddressData = {
+    label: string,
+    recipient: string,
+    line1: string,
+    line2: string | null,
+    city: string,
+    region: string | null,
+    postal_code: string,
+    country: string,
+    phone: string | null,
 }
 
-// User data
+// User data, the addresses are keyed by ID
 type UserData = {
     first_name: string,
     last_name: string,
     uid: string,
+    addresses?: Record<string, AddressData>,
+    default_address_id?: string | null,
+}
+
+// Public user data, shown to the other users
+type PublicUserData = Pick<UserData, 'uid' | 'first_name' | 'last_name'>
+
+// Product option axis, such as size or color
+type ProductOptionData = {
+    name: string,
+    values: string[],
+}
+
+// Product variant data, with its own SKU, price and stock
+type ProductVariantData = {
+    sku: string,
+    options: Record<string, string>,
+    price: number,
+    stock: number,
+    reserved: number,
+    active: boolean,
+    image_url: string,
 }
 
-// Product data
+// Product data, the price is the lowest variant price and the stock the sum of the variant stock if it has variants
 type ProductData = {
     title: string,
     description: string,
     price: number,
     stock: number,
+    reserved: number,
     active: boolean,
     brand: string,
     tags: string[],
     owner: string | UserData,
     image_url: string,
+    sku: string,
+    search_tokens: string[],
+    rating_average: number,
+    rating_count: number,
+    rating_sum: number,
+    options?: ProductOptionData[],
+    variants?: Record<string, ProductVariantData>,
+    category_id?: string | null,
+    category_ids?: string[],
+    images?: ProductImageData[],
+    deleted_at?: Date | Timestamp | null,
+    purge_at?: Date | Timestamp | null,
+    purged_at?: Date | Timestamp | null,
+    created_at: Date | Timestamp,
+}
+
+// Product data sent in the responses
+type ProductResponseData = Omit<ProductData, 'search_tokens'>
+
+// Product image data, the gallery is ordered and the first image is the primary one
+type ProductImageData = {
+    id: string,
+    path: string,
+    url: string,
+    content_type: string,
+    size: number,
+    created_at: Date | Timestamp,
+}
+
+// Product image upload data, issued before the image is uploaded to Storage
+type ProductImageUploadData = {
+    owner: string,
+    path: string,
+    content_type: string,
+    size: number,
+    expires_at: Date | Timestamp,
+}
+
+// Category data, the ancestors are ordered from the root
+type CategoryData = {
+    name: string,
+    parent_id: string | null,
+    ancestor_ids: string[],
+    created_at: Date | Timestamp,
 }
 
 // Cart data
@@ -91,16 +594,275 @@ type CartData = {
     owner: string,
     status: string,
     products: {
-        [product_id: string]: {
+        [line_key: string]: {
+            product_id?: string,
+            variant_id?: string | null,
             price: number,
             quantity: number,
         }
-    }
+    },
+    product_ids?: string[],
+    notices?: CartNoticeData[],
+    coupon_code?: string | null,
+    order_id?: string,
+}
+
+// Action taken on a cart line when a change of its product causes an issue
+type CartSyncAction = 'remove' | 'clamp' | 'flag'
+
+// Cart notice data, added when a change of a product affects a cart line
+type CartNoticeData = {
+    product_id: string,
+    variant_id: string | null,
+    title: string | null,
+    issue: CartLineIssue,
+    action: CartSyncAction,
+    previous_quantity: number,
+    quantity: number,
+    created_at: Date | Timestamp,
+}
+
+// Stock reservation data of a cart line
+type StockReservationData = {
+    cart_id: string,
+    owner: string,
+    product_id: string,
+    variant_id: string | null,
+    quantity: number,
+    expires_at: Date | Timestamp,
+}
+
+// Reason of a stock movement
+type StockMovementReason = 'initial' | 'manual_edit' | 'sale' | 'reservation' | 'release' | 'return' | 'admin_correction'
+
+// Stock movement input data, completed with the stock after the movement when recorded
+type StockMovementInputData = {
+    variant_id?: string | null,
+    delta?: number,
+    reserved_delta?: number,
+    reason: StockMovementReason,
+    actor: string | null,
+    order_id?: string,
+    cart_id?: string,
+    note?: string | null,
+}
+
+// Stock movement data, appended to the inventory ledger of a product. The stock after the movement is the one
+// of the variant, if any
+type StockMovementData = {
+    product_id: string,
+    variant_id: string | null,
+    delta: number,
+    reserved_delta: number,
+    stock_after: number,
+    reserved_after: number,
+    reason: StockMovementReason,
+    actor: string | null,
+    order_id: string | null,
+    cart_id: string | null,
+    note: string | null,
+    created_at: Date | Timestamp,
+}
+
+// Coupon data, stored with the code as document ID
+type CouponData = {
+    code: string,
+    owner: string,
+    type: 'percentage' | 'fixed',
+    value: number,
+    products?: string[],
+    sellers: string[],
+    brands: string[],
+    tags: string[],
+    min_cart_value: number,
+    max_uses: number | null,
+    max_uses_per_user: number | null,
+    uses: number,
+    starts_at: Date | Timestamp | null,
+    ends_at: Date | Timestamp | null,
+    active: boolean,
+    created_at: Date | Timestamp,
+}
+
+// Coupon redemption data of a user
+type CouponRedemptionData = {
+    owner: string,
+    uses: number,
+}
+
+// Cart line issue, found when comparing the line with the current product data
+type CartLineIssue = 'price_changed' | 'inactive' | 'deleted' | 'over_stock'
+
+// Cart line data, hydrated with the current product data
+type CartLineData = {
+    product_id: string,
+    variant_id: string | null,
+    options: Record<string, string> | null,
+    quantity: number,
+    price: number,
+    current_price: number | null,
+    title: string | null,
+    image_url: string | null,
+    active: boolean,
+    available_stock: number,
+    reserved_quantity: number,
+    issues: CartLineIssue[],
+}
+
+// Cart line pricing data
+type CartLinePricingData = {
+    unit_price: number,
+    quantity: number,
+    subtotal: number,
+    discount: number,
+    total: number,
+}
+
+// Cart pricing data
+type CartPricingData = {
+    lines: Record<string, CartLinePricingData>,
+    coupon_code: string | null,
+    subtotal: number,
+    discount: number,
+    total: number,
+}
+
+// Review data
+type ReviewData = {
+    product_id: string,
+    owner: string,
+    rating: number,
+    text: string,
+    images: string[],
+    created_at: Date | Timestamp,
+    updated_at: Date | Timestamp,
+}
+
+// Order item data
+type OrderItemData = {
+    product_id: string,
+    variant_id: string | null,
+    sku: string,
+    options: Record<string, string> | null,
+    title: string,
+    brand: string,
+    image_url: string,
+    seller: string,
+    unit_price: number,
+    quantity: number,
+    subtotal: number,
+    discount: number,
+    total: number,
+}
+
+// Order data
+type OrderData = {
+    owner: string,
+    cart_id: string,
+    status: string,
+    items: OrderItemData[],
+    product_ids: string[],
+    sellers: string[],
+    item_count: number,
+    coupon_code: string | null,
+    subtotal: number,
+    discount: number,
+    total: number,
+    shipping_address?: AddressData | null,
+    created_at: Date | Timestamp,
+}
+
+// Order summary data
+type OrderSummaryData = Omit<OrderData, 'items' | 'product_ids' | 'sellers'>
+
+// Product search result data
+type ProductSearchResultData = {
+    id: string,
+    data: ProductData,
+    score: number,
+}
+
+// Product search filters data, applied to the ranked products
+type ProductSearchFiltersData = {
+    category_id: string | null,
+    brands: string[] | null,
+    tags: string[] | null,
+}
+
+// Price bucket data of the search facets
+type PriceBucketData = {
+    min: number,
+    max: number | null,
+    count: number,
+}
+
+// Product search facets data, with the number of products of every value
+type ProductFacetsData = {
+    brands: Record<string, number>,
+    tags: Record<string, number>,
+    categories: Record<string, number>,
+    price: PriceBucketData[],
+}
+
+// Sort order data
+type SortOrderData = {
+    field: string,
+    direction: 'asc' | 'desc',
+}
+
+// Page token data
+type PageTokenData = {
+    sort: string,
+    values?: unknown[],
+    id?: string,
+}
+
+// Pagination data
+type PaginationData = {
+    limit: number,
+    offset: number,
+    pageToken: PageTokenData | null,
+    sort: string,
+    includeTotalCount: boolean,
+}
+
+// Page data
+type PageData<T> = {
+    items: T[],
+    nextPageToken: string | null,
+    totalCount: number | null,
+}
+
+// Cursor of a result sorted in memory, its sort values and its ID to break the ties
+type ResultCursorData = {
+    values: number[],
+    id: string,
+}
+
+// Seller sale line data
+type SaleLineData = OrderItemData & {
+    order_id: string,
+    buyer: string,
+    created_at: Date,
+}
+
+// Seller sales aggregate data
+type SalesAggregateData = {
+    units_sold: number,
+    revenue: number,
+}
+
+// Checkout error data
+type CheckoutErrorData = {
+    product_id: string,
+    variant_id: string | null,
+    error: string,
 }
 
-// Initialize the Firebase Admin SDK
+// Initialize the Firebase Admin SDK with the application default credentials, which GOOGLE_APPLICATION_CREDENTIALS
+// can point to a service account key outside of Google Cloud
 const app = initializeApp({
-    credential: cert(serviceAccount as ServiceAccount),
+    storageBucket: CONFIG.storageBucket,
 });
 
 // Firebase Auth instance
@@ -108,41 +870,42 @@ const auth = getAuth(app);
 
 
 // Firebase Firestore instance
-const firestore = getFirestore(config.database);
+const firestore = getFirestore(CONFIG.databaseId);
 
 // Create a custom HTTP error with a status code and a message
 class HTTPError extends Error {
     statusCode: number;
+    details?: unknown;
 
-    constructor(message: string, statusCode: number) {
+    constructor(message: string, statusCode: number, details?: unknown) {
         super(message);
         this.name = this.constructor.name;
         this.statusCode = statusCode;
+        this.details = details;
         Error.captureStackTrace(this, this.constructor);
     }
 }
 
-// Request HTTP error handler
-function handleRequestError(fn: (req: Request, res: Response) => void | Promise<void>) {
-    return async (req: Request, res: Response) => {
-        try {
-            // Log the request only if DEBUG is true
-            if (DEBUG) {
-                logInfo(`Request body: ${JSON.stringify(req.body)}`);
-                logInfo(`Request headers: ${JSON.stringify(req.headers)}`);
-            }
+// Get the response body of an HTTP error
+function getHTTPErrorBody(error: HTTPError) {
+    return error.details !== undefined ? {error: error.message, details: error.details} : {error: error.message};
+}
 
+// Request HTTP error handler, the arguments after the request and the response are passed through to the handler
+function handleRequestError<A extends unknown[]>(fn: (req: Request, res: Response, ...args: A) => void | Promise<void>) {
+    return async (req: Request, res: Response, ...args: A) => {
+        try {
             // Check if it's a promise
             if (fn.constructor.name === 'AsyncFunction') {
-                await fn(req, res);
+                await fn(req, res, ...args);
             } else {
-                fn(req, res);
+                fn(req, res, ...args);
             }
         } catch (error) {
             if (error instanceof HTTPError) {
-                res.status(error.statusCode).json({error: error.message});
+                res.status(error.statusCode).json(getHTTPErrorBody(error));
             } else {
-                logWarning(`Error: ${error}`);
+                logError(`Unexpected error`, error);
                 res.status(500).json({error: 'Internal Server Error'});
             }
         }
@@ -150,7 +913,7 @@ function handleRequestError(fn: (req: Request, res: Response) => void | Promise<
 }
 
 // Check if the user is authenticated
-async function checkAuth(req: Request) {
+async function checkAuth(req: Request, repositories: Repositories) {
     // Check if the user is authenticated
     const authorizationHeader = req.headers['Authorization'] as string || req.headers['authorization'] as string;
 
@@ -170,819 +933,7260 @@ async function checkAuth(req: Request) {
     }
 
     try {
-        // Verify the token
-        const decodedIdToken = await auth.verifyIdToken(token)
+        // Verify the token, rejecting revoked tokens and suspended users
+        const decodedIdToken = await repositories.accounts.verifyIdToken(token, true)
+        updateLogContext({uid: decodedIdToken.uid});
         logInfo(`User authenticated with ID: ${decodedIdToken.uid}`);
         return decodedIdToken;
     } catch (error) {
+        if ((error as { code?: string })?.code === 'auth/user-disabled') {
+            logWarning(`User is suspended: ${error}`);
+            throw new HTTPError('User is suspended', 403);
+        }
         logWarning(`Token verification failed: ${error}`);
         throw new HTTPError('Token verification failed', 401);
     }
 }
 
-// Get the current pending cart reference for the user
-async function getCurrentPendingCartRef(firestore: Firestore, decodedIdToken: DecodedIdToken) {
+// Get the roles of the user, from the claims of their ID token or of their account
+function getRoles(claims: Record<string, unknown>): Role[] {
+    if (claims.roles === undefined) {
+        return CONFIG.defaultRoles;
+    }
+    if (!Array.isArray(claims.roles)) {
+        logWarning(`Invalid roles claim: ${JSON.stringify(claims.roles)}`);
+        return [];
+    }
+
+    // The claim is set by the admins only, an unknown role grants nothing
+    const invalidRoles = claims.roles.filter(role => !isRole(role));
+    if (invalidRoles.length > 0) {
+        logWarning(`Unknown roles in the roles claim: ${JSON.stringify(invalidRoles)}`);
+    }
+    return claims.roles.filter(isRole);
+}
+
+// Check if a value is a user role
+function isRole(value: unknown): value is Role {
+    return (ROLES as readonly unknown[]).includes(value);
+}
+
+// Check if the user has a role, admins have every role
+function hasRole(claims: Record<string, unknown>, role: Role) {
+    const roles = getRoles(claims);
+    return roles.includes(role) || roles.includes('admin');
+}
+
+// Check if the user is authenticated and has any of the roles
+async function checkAuthorization(req: Request, repositories: Repositories, roles: Role[]) {
+    const decodedIdToken = await checkAuth(req, repositories);
+
+    if (!roles.some(role => hasRole(decodedIdToken, role))) {
+        logWarning(`User ${decodedIdToken.uid} doesn't have any of the roles: ${roles.join(', ')}`);
+        throw new HTTPError('You do not have permission to perform this action', 403);
+    }
+    return decodedIdToken;
+}
+
+// Get a Firebase Auth account by user ID
+async function getAccount(repositories: Repositories, uid: string) {
+    // Log the action
+    logInfo(`Getting auth user for ID: ${uid}`);
+
+    const account = await repositories.accounts.get(uid);
+    if (account === null) {
+        logWarning(`User not found with ID: ${uid}`);
+        throw new HTTPError('User not found', 404);
+    }
+    return account;
+}
+
+// Get the current pending cart of the user
+async function getCurrentPendingCart(repositories: Repositories, decodedIdToken: DecodedIdToken) {
     // Log the action
     logInfo(`Getting pending cart for user: ${decodedIdToken.uid}`);
 
-    // Query the Firestore collection for the user's cart
-    const cartRef = firestore.collection('carts').where('owner',
-        '==',
-        decodedIdToken.uid
-    ).where('status', '==', 'pending');
-    return await cartRef.get();
+    return await repositories.carts.findPending(decodedIdToken.uid);
 }
 
 // Get a product data by ID
-async function getProductDataById(firestore: Firestore, productId: string): Promise<[DocumentReference, ProductData]> {
+async function getProductDataById(
+    repositories: Repositories,
+    productId: string,
+    includeDeleted = false
+): Promise<ProductData> {
     // Log the action
     logInfo(`Getting product data for ID: ${productId}`);
 
-    // Query the Firestore collection for the product
-    const productRef = firestore.collection('products').doc(productId);
-    const productSnapshot = await productRef.get();
-
-    // Check if the product exists
-    if (!productSnapshot.exists) {
+    // Check if the product exists, the removed products are only found if requested
+    const productData = await repositories.products.get(productId);
+    if (!productData || (productData.deleted_at && !includeDeleted)) {
         logWarning(`Product not found with ID: ${productId}`);
         throw new HTTPError('Product not found', 404);
     }
-    const productData = productSnapshot.data() as ProductData;
 
-    // Fetch the owner's name from the users collection
-    const userRef = firestore.collection('users').doc(productData.owner as string);
-    const userSnapshot = await userRef.get();
-
-    if (!userSnapshot.exists) {
+    // Fetch the owner's name from the users
+    const userData = await repositories.users.get(productData.owner as string);
+    if (userData === null) {
         logWarning(`User not found with ID: ${productData.owner}`);
         throw new HTTPError('Owner not found', 404);
     }
-    const userData = userSnapshot.data() as UserData;
 
-    return [productRef, {...productData, owner: {...userData, uid: productData.owner} as UserData}];
+    return {...productData, owner: getPublicUserData(userData)};
 }
 
-// Check if the product is active
-async function checkProductActive(productData: ProductData) {
-    if (!productData?.active) {
-        logWarning(`Product is inactive: ${productData.title}`);
-        throw new HTTPError('Product is inactive', 400);
-    }
+// Get the public data of a user, without their addresses
+function getPublicUserData({uid, first_name, last_name}: UserData): PublicUserData {
+    return {uid, first_name, last_name};
 }
 
-// Check if the product has stock
-async function checkProductStock(productData: ProductData, quantity: number) {
-    if (productData?.stock <= 0) {
-        logWarning(`Product "${productData.title}" is out of stock.`);
-        throw new HTTPError('Product is out of stock', 400);
-    }
-    if (quantity && productData?.stock < quantity) {
-        logWarning(`Not enough stock for product "${productData.title}". Requested: ${quantity}, Available: ${productData.stock}`);
-        throw new HTTPError('Not enough stock', 400);
-    }
-}
+// Get an order data by ID
+async function getOrderDataById(repositories: Repositories, orderId: string) {
+    // Log the action
+    logInfo(`Getting order data for ID: ${orderId}`);
 
-// Validate if the field is a string
-function validateStringField(fieldValue: any, fieldName: string) {
-    if (typeof fieldValue !== 'string') {
-        logWarning(`Invalid argument: ${fieldName} must be a string`);
-        throw new HTTPError(`${fieldName} must be a string`, 400);
+    // Check if the order exists
+    const orderData = await repositories.orders.get(orderId);
+    if (orderData === null) {
+        logWarning(`Order not found with ID: ${orderId}`);
+        throw new HTTPError('Order not found', 404);
     }
+
+    return orderData;
 }
 
-// Validate if the field is a non-empty string
-function validateNonEmptyStringField(fieldValue: any, fieldName: string) {
-    validateStringField(fieldValue, fieldName);
+// Convert a Firestore timestamp to a date
+function toDate(value: Date | Timestamp) {
+    return value instanceof Timestamp ? value.toDate() : value;
+}
 
-    if (fieldValue?.trim() === '') {
-        logWarning(`Invalid argument: ${fieldName} must be a non-empty string`);
-        throw new HTTPError(`${fieldName} must be a non-empty string`, 400);
+// Get the sale lines of the seller's products over a date range
+async function getSellerSaleLines(repositories: Repositories, sellerId: string, minCreatedAt: Date | null, maxCreatedAt: Date | null) {
+    // Log the action
+    logInfo(`Getting sale lines for seller: ${sellerId}`);
+
+    // Get the orders containing the seller's products, newest first
+    const orders = await repositories.orders.findBySeller(sellerId, minCreatedAt, maxCreatedAt);
+
+    // Keep only the lines of the seller's products
+    const saleLines: SaleLineData[] = [];
+    for (const order of orders) {
+        for (const item of order.data.items) {
+            if (item.seller === sellerId) {
+                saleLines.push({
+                    ...item,
+                    order_id: order.id,
+                    buyer: order.data.owner,
+                    created_at: toDate(order.data.created_at),
+                });
+            }
+        }
     }
+
+    return saleLines;
 }
 
-// Validate if the field is a number
-function validateNumberField(fieldValue: any, fieldName: string) {
-    if (typeof fieldValue !== 'number') {
-        logWarning(`Invalid argument: ${fieldName} must be a number`);
-        throw new HTTPError(`${fieldName} must be a number`, 400);
+// Get the key of the period a date belongs to, in UTC
+function getPeriodKey(date: Date, groupBy: string) {
+    if (groupBy === 'month') {
+        return date.toISOString().slice(0, 7);
     }
+    if (groupBy === 'week') {
+        // Weeks start on Monday
+        const weekStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+        weekStart.setUTCDate(weekStart.getUTCDate() - (weekStart.getUTCDay() + 6) % 7);
+        return weekStart.toISOString().slice(0, 10);
+    }
+    return date.toISOString().slice(0, 10);
 }
 
-// Validate if the field is a positive number
-function validatePositiveNumberField(fieldValue: any, fieldName: string) {
-    validateNumberField(fieldValue, fieldName);
+// --- REPOSITORIES
 
-    if (fieldValue < 0 || fieldValue === Infinity) {
-        logWarning(`Invalid argument: ${fieldName} must be a positive number`);
-        throw new HTTPError(`${fieldName} must be a positive number`, 400);
-    }
+// Document data with its ID
+type RecordData<T> = {
+    id: string,
+    data: T,
 }
 
-// Validate if the field is a positive non-zero number
-function validatePositiveNonZeroNumberField(fieldValue: any, fieldName: string) {
-    validateNumberField(fieldValue, fieldName);
+// Firebase Auth account data, the roles are kept in the custom claims
+type AccountData = {
+    uid: string,
+    disabled: boolean,
+    claims: Record<string, unknown>,
+}
 
-    if (fieldValue <= 0 || fieldValue === Infinity) {
-        logWarning(`Invalid argument: ${fieldName} must be a positive non-zero number`);
-        throw new HTTPError(`${fieldName} must be a positive non-zero number`, 400);
-    }
+// Account repository, over Firebase Auth
+type AccountRepository = {
+    verifyIdToken(token: string, checkRevoked: boolean): Promise<DecodedIdToken>,
+    get(uid: string): Promise<AccountData | null>,
+    setClaims(uid: string, claims: Record<string, unknown>): Promise<void>,
+    setDisabled(uid: string, disabled: boolean): Promise<void>,
+    revokeTokens(uid: string): Promise<void>,
+    delete(uid: string): Promise<void>,
 }
 
-// Validate if the field is a boolean
-function validateBooleanField(fieldValue: any, fieldName: string) {
-    if (typeof fieldValue !== 'boolean') {
-        logWarning(`Invalid argument: ${fieldName} must be a boolean`);
-        throw new HTTPError(`${fieldName} must be a boolean`, 400);
-    }
+// User repository, the users are stored by their Firebase Auth ID
+type UserRepository = {
+    get(uid: string): Promise<UserData | null>,
+    set(userData: UserData): Promise<void>,
+    update(uid: string, fields: Partial<Omit<UserData, 'uid'>>): Promise<void>,
+    delete(uid: string): Promise<void>,
 }
 
-// Validate if the field is an array
-function validateArrayField(fieldValue: any, fieldName: string) {
-    if (!Array.isArray(fieldValue)) {
-        logWarning(`Invalid argument: ${fieldName} must be an array`);
-        throw new HTTPError(`${fieldName} must be an array`, 400);
-    }
+// Filters of the product search candidates, Firestore allows either the search tokens or the category as array filter
+type ProductCandidateFiltersData = {
+    owner?: string,
+    active?: boolean,
+    search_tokens?: string[], // Any of the tokens
+    category_id?: string,
+    brands?: string[],
+    min_price?: number,
+    max_price?: number,
+    min_stock?: number,
+    max_stock?: number,
+    min_created_at?: Date,
+    max_created_at?: Date,
+    min_rating?: number,
 }
 
-/*
-// Validate if the field is a non-empty array
-function validateNonEmptyArrayField(fieldValue: any, fieldName: string) {
-    validateArrayField(fieldValue, fieldName);
-    if (fieldValue.length === 0) {
-        logWarning(`Invalid argument: ${fieldName} must be a non-empty array`);
-        throw new HTTPError(`${fieldName} must be a non-empty array`, 400);
-    }
+// Product repository, the removed products are also found
+type ProductRepository = {
+    get(productId: string): Promise<ProductData | null>,
+    getAll(productIds: string[]): Promise<Map<string, ProductData>>,
+    update(productId: string, fields: Partial<ProductData>): Promise<void>,
+    updateAll(updates: Map<string, Partial<ProductData>>): Promise<void>,
+    findByOwner(owner: string): Promise<RecordData<ProductData>[]>,
+    findByCategory(categoryId: string, limit?: number): Promise<RecordData<ProductData>[]>,
+    findSearchCandidates(filters: ProductCandidateFiltersData, limit: number): Promise<RecordData<ProductData>[]>,
+    findPurgeable(limit: number): Promise<RecordData<ProductData>[]>,
+    listByOwner(owner: string, pagination: PaginationData, sortOrder: SortOrderData): Promise<PageData<RecordData<ProductData>>>,
+    listActive(pagination: PaginationData, sortOrder: SortOrderData): Promise<PageData<RecordData<ProductData>>>,
+    listArchived(owner: string | null, pagination: PaginationData, sortOrder: SortOrderData): Promise<PageData<RecordData<ProductData>>>,
+    countListedByOwner(owner: string): Promise<number>,
+    purge(productId: string): Promise<void>,
 }
- */
 
-// Function to create a new user
-export const create_user = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo('Function create_user called');
+// Product image upload repository, the uploads are stored by product
+type ImageUploadRepository = {
+    newId(): string,
+    get(productId: string, uploadId: string): Promise<ProductImageUploadData | null>,
+    set(productId: string, uploadId: string, uploadData: ProductImageUploadData): Promise<void>,
+    delete(productId: string, uploadId: string): Promise<void>,
+}
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+// Stock movement repository, the ledger of every product
+type StockMovementRepository = {
+    listByProduct(
+        productId: string,
+        reason: StockMovementReason | null,
+        pagination: PaginationData,
+        sortOrder: SortOrderData
+    ): Promise<PageData<RecordData<StockMovementData>>>,
+}
 
-        // Extract data from request body
-        const {first_name = null, last_name = null} = req.body;
-        const mappedFields: Record<string, any> = {
-            'First name': first_name,
-            'Last name': last_name,
-        }
-        for (const mappedFieldKey in mappedFields) {
-            validateNonEmptyStringField(mappedFields[mappedFieldKey], mappedFieldKey);
-        }
+// Cart repository, every user has at most one pending cart
+type CartRepository = {
+    newId(): string,
+    findPending(owner: string): Promise<RecordData<CartData> | null>,
+    findPendingByProduct(productId: string): Promise<RecordData<CartData>[]>,
+    update(cartId: string, fields: Partial<CartData>): Promise<void>,
+}
 
-        // Create a new user object
-        const newUser = {first_name, last_name};
-        await firestore.collection('users').doc(decodedIdToken.uid).set(newUser);
+// Stock reservation repository, the reservations are stored by cart line
+type ReservationRepository = {
+    getAll(reservationIds: string[]): Promise<Map<string, StockReservationData>>,
+    findExpired(limit: number): Promise<RecordData<StockReservationData>[]>,
+}
+
+// Coupon repository, the coupons are stored by code with the redemptions of every user
+type CouponRepository = {
+    get(code: string): Promise<CouponData | null>,
+    getRedemption(code: string, uid: string): Promise<CouponRedemptionData | null>,
+    create(couponData: CouponData): Promise<boolean>, // False if the code is taken
+}
+
+// Order repository
+type OrderRepository = {
+    get(orderId: string): Promise<OrderData | null>,
+    findBySeller(sellerId: string, minCreatedAt: Date | null, maxCreatedAt: Date | null): Promise<RecordData<OrderData>[]>,
+    hasCompletedWithProduct(owner: string, productId: string): Promise<boolean>,
+    hasProduct(productId: string): Promise<boolean>,
+    listByOwner(owner: string, pagination: PaginationData, sortOrder: SortOrderData): Promise<PageData<RecordData<OrderData>>>,
+    scrubOwner(owner: string): Promise<number>,
+}
+
+// Review repository, there's one review per product per user
+type ReviewRepository = {
+    listByProduct(productId: string, pagination: PaginationData, sortOrder: SortOrderData): Promise<PageData<RecordData<ReviewData>>>,
+    anonymizeOwner(owner: string): Promise<number>,
+}
+
+// Category repository
+type CategoryRepository = {
+    get(categoryId: string): Promise<CategoryData | null>,
+    list(): Promise<RecordData<CategoryData>[]>,
+    findByName(parentId: string | null, name: string): Promise<RecordData<CategoryData>[]>,
+    findChildren(parentId: string, limit?: number): Promise<RecordData<CategoryData>[]>,
+    findDescendants(categoryId: string): Promise<RecordData<CategoryData>[]>,
+    create(categoryData: CategoryData): Promise<string>,
+    update(categoryId: string, fields: Partial<CategoryData>): Promise<void>,
+    updateAll(updates: Map<string, Partial<CategoryData>>): Promise<void>,
+    delete(categoryId: string): Promise<void>,
+}
+
+// Idempotency key repository, the keys are stored by the hash of the user ID and the key
+type IdempotencyKeyRepository = {
+    update(keyId: string, fields: Partial<IdempotencyKeyData>): Promise<void>,
+    delete(keyId: string): Promise<void>,
+    deleteByOwner(owner: string): Promise<number>,
+}
+
+// Repositories of a transaction, which must read every document before writing any, as Firestore does
+type TransactionRepositories = {
+    products: {
+        get(productId: string): Promise<ProductData | null>,
+        getAll(productIds: string[]): Promise<Map<string, ProductData>>,
+        create(productData: ProductData): string,
+        update(productId: string, fields: Partial<ProductData>): void,
+    },
+    stockMovements: {
+        findByProduct(productId: string): Promise<StockMovementData[]>,
+        create(movementData: StockMovementData): void,
+    },
+    reservations: {
+        getAll(reservationIds: string[]): Promise<Map<string, StockReservationData>>,
+        set(reservationId: string, reservationData: StockReservationData): void,
+        delete(reservationId: string): void,
+    },
+    carts: {
+        get(cartId: string): Promise<CartData | null>,
+        create(cartId: string, cartData: CartData): void,
+        update(cartId: string, fields: Partial<CartData>): void,
+        delete(cartId: string): void,
+    },
+    coupons: {
+        get(code: string): Promise<CouponData | null>,
+        getRedemption(code: string, uid: string): Promise<CouponRedemptionData | null>,
+        update(code: string, fields: Partial<CouponData>): void,
+        setRedemption(code: string, uid: string, redemptionData: CouponRedemptionData): void,
+    },
+    orders: {
+        create(orderData: OrderData): string,
+    },
+    reviews: {
+        get(productId: string, uid: string): Promise<ReviewData | null>,
+        create(productId: string, uid: string, reviewData: ReviewData): void,
+        update(productId: string, uid: string, fields: Partial<ReviewData>): void,
+        delete(productId: string, uid: string): void,
+    },
+    imageUploads: {
+        delete(productId: string, uploadId: string): void,
+    },
+    rateLimits: {
+        get(bucketId: string): Promise<RateLimitBucketData | null>,
+        set(bucketId: string, bucketData: RateLimitBucketData): void,
+    },
+    idempotencyKeys: {
+        get(keyId: string): Promise<IdempotencyKeyData | null>,
+        set(keyId: string, keyData: IdempotencyKeyData): void,
+    },
+}
+
+// Repositories injected into the endpoint handlers
+type Repositories = {
+    accounts: AccountRepository,
+    users: UserRepository,
+    products: ProductRepository,
+    imageUploads: ImageUploadRepository,
+    stockMovements: StockMovementRepository,
+    carts: CartRepository,
+    reservations: ReservationRepository,
+    coupons: CouponRepository,
+    orders: OrderRepository,
+    reviews: ReviewRepository,
+    categories: CategoryRepository,
+    idempotencyKeys: IdempotencyKeyRepository,
+    runTransaction<T>(fn: (transaction: TransactionRepositories) => Promise<T>): Promise<T>,
+}
+
+// Get the data of the existing documents by ID, reading them at once
+async function getAllDocumentsData<T>(
+    getAll: (...documentRefs: DocumentReference[]) => Promise<DocumentSnapshot[]>,
+    documentRefs: DocumentReference[]
+) {
+    const documentsData = new Map<string, T>();
+    if (documentRefs.length > 0) {
+        const documentSnapshots = await getAll(...documentRefs);
+        documentSnapshots
+            .filter(documentSnapshot => documentSnapshot.exists)
+            .forEach(documentSnapshot => documentsData.set(documentSnapshot.id, documentSnapshot.data() as T));
+    }
+    return documentsData;
+}
+
+// Create the repositories over a Firestore database and Firebase Auth
+function createFirestoreRepositories(firestore: Firestore, auth: Auth): Repositories {
+    const usersRef = firestore.collection('users');
+    const productsRef = firestore.collection('products');
+    const cartsRef = firestore.collection('carts');
+    const reservationsRef = firestore.collection('reservations');
+    const couponsRef = firestore.collection('coupons');
+    const ordersRef = firestore.collection('orders');
+    const reviewsRef = firestore.collection('reviews');
+    const categoriesRef = firestore.collection('categories');
+    const idempotencyKeysRef = firestore.collection('idempotency_keys');
+    const rateLimitsRef = firestore.collection('rate_limits');
+    const getAll = (...documentRefs: DocumentReference[]) => firestore.getAll(...documentRefs);
+
+    // Get a document data, null if it doesn't exist
+    async function getDocumentData<T>(documentSnapshot: Promise<DocumentSnapshot>) {
+        const snapshot = await documentSnapshot;
+        return snapshot.exists ? snapshot.data() as T : null;
+    }
+
+    // Get the documents data of a query, with their IDs
+    async function getRecords<T>(query: Query): Promise<RecordData<T>[]> {
+        const querySnapshot = await query.get();
+        return querySnapshot.docs.map(doc => ({id: doc.id, data: doc.data() as T}));
+    }
+
+    // Update documents by ID with a bulk writer, failing if any update fails
+    async function updateAllDocuments<T>(collectionRef: CollectionReference, updates: Map<string, Partial<T>>) {
+        const bulkWriter = firestore.bulkWriter();
+        const writes = [...updates].map(([id, fields]) => bulkWriter.update(collectionRef.doc(id), fields as Record<string, unknown>));
+        await Promise.all([...writes, bulkWriter.close()]);
+    }
+
+    // Get the reference of the review of a product by a user
+    function getReviewRef(productId: string, uid: string) {
+        return reviewsRef.doc(getReviewId(productId, uid));
+    }
+
+    // Get the image uploads reference of a product
+    function getImageUploadsRef(productId: string) {
+        return productsRef.doc(productId).collection('image_uploads');
+    }
+
+    // Create the repositories of a transaction
+    function createTransactionRepositories(transaction: Transaction): TransactionRepositories {
+        const getAllInTransaction = (...documentRefs: DocumentReference[]) => transaction.getAll(...documentRefs);
+
+        return {
+            products: {
+                async get(productId) {
+                    return getDocumentData<ProductData>(transaction.get(productsRef.doc(productId)));
+                },
+                async getAll(productIds) {
+                    return getAllDocumentsData<ProductData>(getAllInTransaction, productIds.map(productId => productsRef.doc(productId)));
+                },
+                create(productData) {
+                    const productRef = productsRef.doc();
+                    transaction.create(productRef, productData);
+                    return productRef.id;
+                },
+                update(productId, fields) {
+                    transaction.update(productsRef.doc(productId), fields);
+                },
+            },
+            stockMovements: {
+                async findByProduct(productId) {
+                    const movementsSnapshot = await transaction.get(getStockMovementsRef(productsRef.doc(productId)));
+                    return movementsSnapshot.docs.map(movementDoc => movementDoc.data() as StockMovementData);
+                },
+                create(movementData) {
+                    transaction.create(getStockMovementsRef(productsRef.doc(movementData.product_id)).doc(), movementData);
+                },
+            },
+            reservations: {
+                async getAll(reservationIds) {
+                    return getAllDocumentsData<StockReservationData>(
+                        getAllInTransaction,
+                        reservationIds.map(reservationId => reservationsRef.doc(reservationId))
+                    );
+                },
+                set(reservationId, reservationData) {
+                    transaction.set(reservationsRef.doc(reservationId), reservationData);
+                },
+                delete(reservationId) {
+                    transaction.delete(reservationsRef.doc(reservationId));
+                },
+            },
+            carts: {
+                async get(cartId) {
+                    return getDocumentData<CartData>(transaction.get(cartsRef.doc(cartId)));
+                },
+                create(cartId, cartData) {
+                    transaction.create(cartsRef.doc(cartId), cartData);
+                },
+                update(cartId, fields) {
+                    transaction.update(cartsRef.doc(cartId), fields);
+                },
+                delete(cartId) {
+                    transaction.delete(cartsRef.doc(cartId));
+                },
+            },
+            coupons: {
+                async get(code) {
+                    return getDocumentData<CouponData>(transaction.get(couponsRef.doc(code)));
+                },
+                async getRedemption(code, uid) {
+                    return getDocumentData<CouponRedemptionData>(transaction.get(getCouponRedemptionRef(couponsRef.doc(code), uid)));
+                },
+                update(code, fields) {
+                    transaction.update(couponsRef.doc(code), fields);
+                },
+                setRedemption(code, uid, redemptionData) {
+                    transaction.set(getCouponRedemptionRef(couponsRef.doc(code), uid), redemptionData);
+                },
+            },
+            orders: {
+                create(orderData) {
+                    const orderRef = ordersRef.doc();
+                    transaction.create(orderRef, orderData);
+                    return orderRef.id;
+                },
+            },
+            reviews: {
+                async get(productId, uid) {
+                    return getDocumentData<ReviewData>(transaction.get(getReviewRef(productId, uid)));
+                },
+                create(productId, uid, reviewData) {
+                    transaction.create(getReviewRef(productId, uid), reviewData);
+                },
+                update(productId, uid, fields) {
+                    transaction.update(getReviewRef(productId, uid), fields);
+                },
+                delete(productId, uid) {
+                    transaction.delete(getReviewRef(productId, uid));
+                },
+            },
+            imageUploads: {
+                delete(productId, uploadId) {
+                    transaction.delete(getImageUploadsRef(productId).doc(uploadId));
+                },
+            },
+            rateLimits: {
+                async get(bucketId) {
+                    return getDocumentData<RateLimitBucketData>(transaction.get(rateLimitsRef.doc(bucketId)));
+                },
+                set(bucketId, bucketData) {
+                    transaction.set(rateLimitsRef.doc(bucketId), bucketData);
+                },
+            },
+            idempotencyKeys: {
+                async get(keyId) {
+                    return getDocumentData<IdempotencyKeyData>(transaction.get(idempotencyKeysRef.doc(keyId)));
+                },
+                set(keyId, keyData) {
+                    transaction.set(idempotencyKeysRef.doc(keyId), keyData);
+                },
+            },
+        };
+    }
+
+    return {
+        accounts: {
+            async verifyIdToken(token, checkRevoked) {
+                return auth.verifyIdToken(token, checkRevoked);
+            },
+            async get(uid) {
+                try {
+                    const userRecord = await auth.getUser(uid);
+                    return {uid, disabled: userRecord.disabled, claims: userRecord.customClaims ?? {}};
+                } catch (error) {
+                    if ((error as { code?: string })?.code === 'auth/user-not-found') {
+                        return null;
+                    }
+                    throw error;
+                }
+            },
+            async setClaims(uid, claims) {
+                await auth.setCustomUserClaims(uid, claims);
+            },
+            async setDisabled(uid, disabled) {
+                await auth.updateUser(uid, {disabled});
+            },
+            async revokeTokens(uid) {
+                await auth.revokeRefreshTokens(uid);
+            },
+            async delete(uid) {
+                await auth.deleteUser(uid);
+            },
+        },
+        users: {
+            async get(uid) {
+                const userSnapshot = await usersRef.doc(uid).get();
+                return userSnapshot.exists ? {...userSnapshot.data() as Omit<UserData, 'uid'>, uid} : null;
+            },
+            async set({uid, ...userData}) {
+                await usersRef.doc(uid).set(userData);
+            },
+            async update(uid, fields) {
+                await usersRef.doc(uid).update(fields);
+            },
+            async delete(uid) {
+                await usersRef.doc(uid).delete();
+            },
+        },
+        products: {
+            async get(productId) {
+                return getDocumentData<ProductData>(productsRef.doc(productId).get());
+            },
+            async getAll(productIds) {
+                return getAllDocumentsData<ProductData>(getAll, productIds.map(productId => productsRef.doc(productId)));
+            },
+            async update(productId, fields) {
+                await productsRef.doc(productId).update(fields);
+            },
+            async updateAll(updates) {
+                await updateAllDocuments(productsRef, updates);
+            },
+            async findByOwner(owner) {
+                return getRecords<ProductData>(productsRef.where('owner', '==', owner));
+            },
+            async findByCategory(categoryId, limit) {
+                const productsQuery = productsRef.where('category_ids', 'array-contains', categoryId);
+                return getRecords<ProductData>(limit !== undefined ? productsQuery.limit(limit) : productsQuery);
+            },
+            async findSearchCandidates(filters, limit) {
+                let productsQuery: Query = productsRef;
+                if (filters.owner !== undefined) {
+                    productsQuery = productsQuery.where('owner', '==', filters.owner);
+                }
+                if (filters.active !== undefined) {
+                    productsQuery = productsQuery.where('active', '==', filters.active);
+                }
+                if (filters.search_tokens !== undefined) {
+                    productsQuery = productsQuery.where('search_tokens', 'array-contains-any', filters.search_tokens);
+                }
+                if (filters.category_id !== undefined) {
+                    productsQuery = productsQuery.where('category_ids', 'array-contains', filters.category_id);
+                }
+                if (filters.brands !== undefined) {
+                    productsQuery = productsQuery.where('brand', 'in', filters.brands);
+                }
+                for (const [field, operator, value] of [
+                    ['price', '>=', filters.min_price],
+                    ['price', '<=', filters.max_price],
+                    ['stock', '>=', filters.min_stock],
+                    ['stock', '<=', filters.max_stock],
+                    ['created_at', '>=', filters.min_created_at],
+                    ['created_at', '<=', filters.max_created_at],
+                    ['rating_average', '>=', filters.min_rating],
+                ] as const) {
+                    if (value !== undefined) {
+                        productsQuery = productsQuery.where(field, operator, value);
+                    }
+                }
+                return getRecords<ProductData>(productsQuery
+                    .where('deleted_at', '==', null)
+                    .orderBy('created_at', 'desc')
+                    .orderBy(FieldPath.documentId(), 'desc')
+                    .limit(limit));
+            },
+            async findPurgeable(limit) {
+                return getRecords<ProductData>(productsRef.where('purge_at', '<=', new Date()).limit(limit));
+            },
+            async listByOwner(owner, pagination, sortOrder) {
+                return paginateQuery<ProductData>(
+                    productsRef.where('owner', '==', owner).where('deleted_at', '==', null),
+                    pagination,
+                    sortOrder
+                );
+            },
+            async listActive(pagination, sortOrder) {
+                return paginateQuery<ProductData>(
+                    productsRef.where('active', '==', true).where('deleted_at', '==', null),
+                    pagination,
+                    sortOrder
+                );
+            },
+            async listArchived(owner, pagination, sortOrder) {
+                let productsQuery = productsRef.where('deleted_at', '!=', null);
+                if (owner !== null) {
+                    productsQuery = productsQuery.where('owner', '==', owner);
+                }
+                return paginateQuery<ProductData>(productsQuery, pagination, sortOrder);
+            },
+            async countListedByOwner(owner) {
+                const countSnapshot = await productsRef
+                    .where('owner', '==', owner)
+                    .where('active', '==', true)
+                    .where('deleted_at', '==', null)
+                    .count()
+                    .get();
+                return countSnapshot.data().count;
+            },
+            async purge(productId) {
+                // The ledger and the image uploads of the product are deleted with it
+                await firestore.recursiveDelete(productsRef.doc(productId));
+            },
+        },
+        imageUploads: {
+            newId() {
+                return productsRef.doc().id;
+            },
+            async get(productId, uploadId) {
+                return getDocumentData<ProductImageUploadData>(getImageUploadsRef(productId).doc(uploadId).get());
+            },
+            async set(productId, uploadId, uploadData) {
+                await getImageUploadsRef(productId).doc(uploadId).set(uploadData);
+            },
+            async delete(productId, uploadId) {
+                await getImageUploadsRef(productId).doc(uploadId).delete();
+            },
+        },
+        stockMovements: {
+            async listByProduct(productId, reason, pagination, sortOrder) {
+                let movementsQuery: Query = getStockMovementsRef(productsRef.doc(productId));
+                if (reason !== null) {
+                    movementsQuery = movementsQuery.where('reason', '==', reason);
+                }
+                return paginateQuery<StockMovementData>(movementsQuery, pagination, sortOrder);
+            },
+        },
+        carts: {
+            newId() {
+                return cartsRef.doc().id;
+            },
+            async findPending(owner) {
+                const cartsSnapshot = await cartsRef
+                    .where('owner', '==', owner)
+                    .where('status', '==', 'pending')
+                    .limit(1)
+                    .get();
+                return cartsSnapshot.empty ? null : {id: cartsSnapshot.docs[0].id, data: cartsSnapshot.docs[0].data() as CartData};
+            },
+            async findPendingByProduct(productId) {
+                const cartsSnapshot = await cartsRef
+                    .where('status', '==', 'pending')
+                    .where('product_ids', 'array-contains', productId)
+                    .get();
+                return cartsSnapshot.docs.map(cartDoc => ({id: cartDoc.id, data: cartDoc.data() as CartData}));
+            },
+            async update(cartId, fields) {
+                await cartsRef.doc(cartId).update(fields);
+            },
+        },
+        reservations: {
+            async getAll(reservationIds) {
+                return getAllDocumentsData<StockReservationData>(getAll, reservationIds.map(reservationId => reservationsRef.doc(reservationId)));
+            },
+            async findExpired(limit) {
+                const reservationsSnapshot = await reservationsRef
+                    .where('expires_at', '<=', new Date())
+                    .limit(limit)
+                    .get();
+                return reservationsSnapshot.docs.map(reservationDoc => ({
+                    id: reservationDoc.id,
+                    data: reservationDoc.data() as StockReservationData,
+                }));
+            },
+        },
+        coupons: {
+            async get(code) {
+                return getDocumentData<CouponData>(couponsRef.doc(code).get());
+            },
+            async getRedemption(code, uid) {
+                return getDocumentData<CouponRedemptionData>(getCouponRedemptionRef(couponsRef.doc(code), uid).get());
+            },
+            async create(couponData) {
+                try {
+                    await couponsRef.doc(couponData.code).create(couponData);
+                    return true;
+                } catch (error) {
+                    if ((error as { code?: number })?.code !== GRPC_ALREADY_EXISTS) {
+                        throw error;
+                    }
+                    return false;
+                }
+            },
+        },
+        orders: {
+            async get(orderId) {
+                return getDocumentData<OrderData>(ordersRef.doc(orderId).get());
+            },
+            async findBySeller(sellerId, minCreatedAt, maxCreatedAt) {
+                let ordersQuery = ordersRef
+                    .where('sellers', 'array-contains', sellerId)
+                    .orderBy('created_at', 'desc');
+                if (minCreatedAt !== null) {
+                    ordersQuery = ordersQuery.where('created_at', '>=', minCreatedAt);
+                }
+                if (maxCreatedAt !== null) {
+                    ordersQuery = ordersQuery.where('created_at', '<=', maxCreatedAt);
+                }
+                return getRecords<OrderData>(ordersQuery);
+            },
+            async hasCompletedWithProduct(owner, productId) {
+                const ordersSnapshot = await ordersRef
+                    .where('owner', '==', owner)
+                    .where('status', '==', 'completed')
+                    .where('product_ids', 'array-contains', productId)
+                    .limit(1)
+                    .get();
+                return !ordersSnapshot.empty;
+            },
+            async hasProduct(productId) {
+                const ordersSnapshot = await ordersRef
+                    .where('product_ids', 'array-contains', productId)
+                    .limit(1)
+                    .get();
+                return !ordersSnapshot.empty;
+            },
+            async listByOwner(owner, pagination, sortOrder) {
+                return paginateQuery<OrderData>(ordersRef.where('owner', '==', owner), pagination, sortOrder);
+            },
+            async scrubOwner(owner) {
+                // The scrubbed orders no longer belong to the user, so every batch reads the next orders
+                let scrubbedCount = 0;
+                while (true) {
+                    const ordersSnapshot = await ordersRef
+                        .where('owner', '==', owner)
+                        .limit(MAX_BATCH_WRITES)
+                        .get();
+                    if (ordersSnapshot.empty) {
+                        return scrubbedCount;
+                    }
+
+                    const batch = firestore.batch();
+                    ordersSnapshot.forEach(orderDoc => batch.update(orderDoc.ref, {owner: DELETED_USER_OWNER, shipping_address: null}));
+                    await batch.commit();
+                    scrubbedCount += ordersSnapshot.size;
+                }
+            },
+        },
+        reviews: {
+            async listByProduct(productId, pagination, sortOrder) {
+                return paginateQuery<ReviewData>(reviewsRef.where('product_id', '==', productId), pagination, sortOrder);
+            },
+            async anonymizeOwner(owner) {
+                // Every review is moved to an anonymous owner, which takes two writes, so every batch reads the next ones
+                let anonymizedCount = 0;
+                while (true) {
+                    const reviewsSnapshot = await reviewsRef
+                        .where('owner', '==', owner)
+                        .limit(MAX_BATCH_WRITES / 2)
+                        .get();
+                    if (reviewsSnapshot.empty) {
+                        return anonymizedCount;
+                    }
+
+                    const batch = firestore.batch();
+                    reviewsSnapshot.forEach(reviewDoc => {
+                        const reviewData = reviewDoc.data() as ReviewData;
+                        const anonymousOwner = getAnonymousOwner();
+                        batch.create(reviewsRef.doc(getReviewId(reviewData.product_id, anonymousOwner)), {...reviewData, owner: anonymousOwner});
+                        batch.delete(reviewDoc.ref);
+                    });
+                    await batch.commit();
+                    anonymizedCount += reviewsSnapshot.size;
+                }
+            },
+        },
+        categories: {
+            async get(categoryId) {
+                return getDocumentData<CategoryData>(categoriesRef.doc(categoryId).get());
+            },
+            async list() {
+                return getRecords<CategoryData>(categoriesRef);
+            },
+            async findByName(parentId, name) {
+                return getRecords<CategoryData>(categoriesRef.where('parent_id', '==', parentId).where('name', '==', name));
+            },
+            async findChildren(parentId, limit) {
+                const categoriesQuery = categoriesRef.where('parent_id', '==', parentId);
+                return getRecords<CategoryData>(limit !== undefined ? categoriesQuery.limit(limit) : categoriesQuery);
+            },
+            async findDescendants(categoryId) {
+                return getRecords<CategoryData>(categoriesRef.where('ancestor_ids', 'array-contains', categoryId));
+            },
+            async create(categoryData) {
+                const categoryRef = await categoriesRef.add(categoryData);
+                return categoryRef.id;
+            },
+            async update(categoryId, fields) {
+                await categoriesRef.doc(categoryId).update(fields);
+            },
+            async updateAll(updates) {
+                await updateAllDocuments(categoriesRef, updates);
+            },
+            async delete(categoryId) {
+                await categoriesRef.doc(categoryId).delete();
+            },
+        },
+        idempotencyKeys: {
+            async update(keyId, fields) {
+                await idempotencyKeysRef.doc(keyId).update(fields);
+            },
+            async delete(keyId) {
+                await idempotencyKeysRef.doc(keyId).delete();
+            },
+            async deleteByOwner(owner) {
+                let deletedCount = 0;
+                while (true) {
+                    const keysSnapshot = await idempotencyKeysRef
+                        .where('owner', '==', owner)
+                        .limit(MAX_BATCH_WRITES)
+                        .get();
+                    if (keysSnapshot.empty) {
+                        return deletedCount;
+                    }
+
+                    const batch = firestore.batch();
+                    keysSnapshot.forEach(keyDoc => batch.delete(keyDoc.ref));
+                    await batch.commit();
+                    deletedCount += keysSnapshot.size;
+                }
+            },
+        },
+        async runTransaction(fn) {
+            return firestore.runTransaction(transaction => fn(createTransactionRepositories(transaction)));
+        },
+    };
+}
+
+// In-memory repositories data, by document ID. The coupon redemptions are by coupon code and user ID
+type InMemoryRepositoriesData = {
+    accounts?: Record<string, Partial<Omit<AccountData, 'uid'>>>,
+    users?: Record<string, Omit<UserData, 'uid'>>,
+    products?: Record<string, ProductData>,
+    stockMovements?: Record<string, StockMovementData>,
+    carts?: Record<string, CartData>,
+    reservations?: Record<string, StockReservationData>,
+    coupons?: Record<string, CouponData>,
+    couponRedemptions?: Record<string, Record<string, CouponRedemptionData>>,
+    orders?: Record<string, OrderData>,
+    reviews?: Record<string, ReviewData>,
+    categories?: Record<string, CategoryData>,
+}
+
+// Create the repositories over in-memory data, for the tests. The documents are copied on every read and write, as
+// they would be by Firestore, and the ID tokens are the IDs of the accounts
+export function createInMemoryRepositories(data: InMemoryRepositoriesData = {}): Repositories {
+    const accounts = new Map(Object.entries(data.accounts ?? {}).map(([uid, accountData]): [string, AccountData] => [
+        uid,
+        {uid, disabled: accountData.disabled ?? false, claims: structuredClone(accountData.claims ?? {})},
+    ]));
+    const users = new Map(Object.entries(structuredClone(data.users ?? {})));
+    const products = new Map(Object.entries(structuredClone(data.products ?? {})));
+    const carts = new Map(Object.entries(structuredClone(data.carts ?? {})));
+    const reservations = new Map(Object.entries(structuredClone(data.reservations ?? {})));
+    const coupons = new Map(Object.entries(structuredClone(data.coupons ?? {})));
+    const couponRedemptions = new Map(Object.entries(data.couponRedemptions ?? {}).flatMap(([code, redemptions]) =>
+        Object.entries(structuredClone(redemptions)).map(([uid, redemptionData]) => [`${code}/${uid}`, redemptionData])
+    ));
+    const orders = new Map(Object.entries(structuredClone(data.orders ?? {})));
+    const stockMovements = new Map(Object.entries(structuredClone(data.stockMovements ?? {})));
+    const reviews = new Map(Object.entries(structuredClone(data.reviews ?? {})));
+    const categories = new Map(Object.entries(structuredClone(data.categories ?? {})));
+    const imageUploads = new Map<string, ProductImageUploadData>();
+    const rateLimits = new Map<string, RateLimitBucketData>();
+    const idempotencyKeys = new Map<string, IdempotencyKeyData>();
+
+    // Generate a document ID
+    const newId = () => randomBytes(10).toString('hex');
+
+    // Get a copy of the documents matching a filter, with their IDs
+    function findDocuments<T>(documents: Map<string, T>, filter: (documentData: T) => boolean, limit = Infinity) {
+        return [...documents]
+            .filter(([, documentData]) => filter(documentData))
+            .slice(0, limit)
+            .map(([id, documentData]): RecordData<T> => ({id, data: structuredClone(documentData)}));
+    }
+
+    // Get a page of the documents matching a filter, ordered and paged as paginateQuery does with Firestore
+    function paginateDocuments<T>(
+        documents: Map<string, T>,
+        filter: (documentData: T) => boolean,
+        pagination: PaginationData,
+        sortOrder: SortOrderData
+    ): PageData<RecordData<T>> {
+        const compare = (a: RecordData<T>, b: RecordData<T>) => {
+            const difference = compareBySortOrder(a.data as Record<string, any>, b.data as Record<string, any>, sortOrder);
+            const idDifference = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+            return difference || (sortOrder.direction === 'asc' ? idDifference : -idDifference);
+        };
+        const records = findDocuments(documents, filter).sort(compare);
+
+        // Start after the last document of the previous page
+        let start = pagination.offset;
+        if (pagination.pageToken !== null) {
+            const cursor = {
+                id: pagination.pageToken.id as string,
+                data: {[sortOrder.field]: decodeCursorValue(pagination.pageToken.values?.[0] ?? null)} as T,
+            };
+            start = records.findIndex(record => compare(record, cursor) > 0);
+            start = start === -1 ? records.length : start;
+        }
+        const items = records.slice(start, start + pagination.limit);
+
+        // Build the next page token from the last document
+        let nextPageToken = null;
+        if (start + pagination.limit < records.length) {
+            const lastRecord = items[items.length - 1];
+            nextPageToken = encodePageToken({
+                sort: pagination.sort,
+                values: [encodeCursorValue((lastRecord.data as Record<string, unknown>)[sortOrder.field])],
+                id: lastRecord.id,
+            });
+        }
+
+        return {items, nextPageToken, totalCount: pagination.includeTotalCount ? records.length : null};
+    }
+
+    // Copy the data of a document written, failing on the Firestore sentinels and field paths, which only
+    // Firestore can apply
+    function copyDocumentData<T>(documentData: T): T {
+        for (const [field, value] of Object.entries(documentData as object)) {
+            if (value instanceof FieldValue || field.includes('.')) {
+                throw new Error(`Field ${field} can't be written in memory`);
+            }
+        }
+        return structuredClone(documentData);
+    }
+
+    // Update the fields of a document, failing like Firestore if it doesn't exist
+    function updateDocument<T>(documents: Map<string, T>, id: string, fields: Partial<T>) {
+        const document = documents.get(id);
+        if (document === undefined) {
+            throw new Error(`No document to update: ${id}`);
+        }
+        documents.set(id, {...document, ...copyDocumentData(fields)});
+    }
+
+    // Get a copy of the documents found by ID
+    function getAllDocuments<T>(documents: Map<string, T>, ids: string[]) {
+        const documentsData = new Map<string, T>();
+        ids
+            .filter(id => documents.has(id))
+            .forEach(id => documentsData.set(id, structuredClone(documents.get(id) as T)));
+        return documentsData;
+    }
+
+    // Get a copy of a document, null if it doesn't exist
+    function getDocument<T>(documents: Map<string, T>, id: string) {
+        const document = documents.get(id);
+        return document !== undefined ? structuredClone(document) : null;
+    }
+
+    // Get the account of an ID token, failing like Firebase Auth if it's unknown or the account is disabled
+    function getTokenAccount(token: string, checkRevoked: boolean) {
+        const account = accounts.get(token);
+        if (account === undefined) {
+            throw Object.assign(new Error(`No account for the ID token: ${token}`), {code: 'auth/argument-error'});
+        }
+        if (checkRevoked && account.disabled) {
+            throw Object.assign(new Error(`Account is disabled: ${token}`), {code: 'auth/user-disabled'});
+        }
+        return account;
+    }
+
+    // Create the repositories of a transaction, its writes are applied once it succeeds
+    function createTransactionRepositories(writes: (() => void)[]): TransactionRepositories {
+        // Read in the transaction, failing like Firestore after a write
+        async function read<T>(value: T) {
+            if (writes.length > 0) {
+                throw new Error('Transaction reads must be executed before its writes');
+            }
+            return value;
+        }
+
+        // Write in the transaction, the data is copied as it is written
+        function write<T>(documentData: T, apply: (documentData: T) => void) {
+            const copiedData = copyDocumentData(documentData);
+            writes.push(() => apply(copiedData));
+        }
+
+        return {
+            products: {
+                get: productId => read(getDocument(products, productId)),
+                getAll: productIds => read(getAllDocuments(products, productIds)),
+                create(productData) {
+                    const productId = newId();
+                    write(productData, productData => products.set(productId, productData));
+                    return productId;
+                },
+                update(productId, fields) {
+                    write(fields, fields => updateDocument(products, productId, fields));
+                },
+            },
+            stockMovements: {
+                findByProduct: productId => read([...stockMovements.values()]
+                    .filter(movementData => movementData.product_id === productId)
+                    .map(movementData => structuredClone(movementData))),
+                create(movementData) {
+                    write(movementData, movementData => stockMovements.set(newId(), movementData));
+                },
+            },
+            reservations: {
+                getAll: reservationIds => read(getAllDocuments(reservations, reservationIds)),
+                set(reservationId, reservationData) {
+                    write(reservationData, reservationData => reservations.set(reservationId, reservationData));
+                },
+                delete(reservationId) {
+                    writes.push(() => reservations.delete(reservationId));
+                },
+            },
+            carts: {
+                get: cartId => read(getDocument(carts, cartId)),
+                create(cartId, cartData) {
+                    write(cartData, cartData => carts.set(cartId, cartData));
+                },
+                update(cartId, fields) {
+                    write(fields, fields => updateDocument(carts, cartId, fields));
+                },
+                delete(cartId) {
+                    writes.push(() => carts.delete(cartId));
+                },
+            },
+            coupons: {
+                get: code => read(getDocument(coupons, code)),
+                getRedemption: (code, uid) => read(getDocument(couponRedemptions, `${code}/${uid}`)),
+                update(code, fields) {
+                    write(fields, fields => updateDocument(coupons, code, fields));
+                },
+                setRedemption(code, uid, redemptionData) {
+                    write(redemptionData, redemptionData => couponRedemptions.set(`${code}/${uid}`, redemptionData));
+                },
+            },
+            orders: {
+                create(orderData) {
+                    const orderId = newId();
+                    write(orderData, orderData => orders.set(orderId, orderData));
+                    return orderId;
+                },
+            },
+            reviews: {
+                get: (productId, uid) => read(getDocument(reviews, getReviewId(productId, uid))),
+                create(productId, uid, reviewData) {
+                    write(reviewData, reviewData => {
+                        if (reviews.has(getReviewId(productId, uid))) {
+                            throw new Error(`Document already exists: ${getReviewId(productId, uid)}`);
+                        }
+                        reviews.set(getReviewId(productId, uid), reviewData);
+                    });
+                },
+                update(productId, uid, fields) {
+                    write(fields, fields => updateDocument(reviews, getReviewId(productId, uid), fields));
+                },
+                delete(productId, uid) {
+                    writes.push(() => reviews.delete(getReviewId(productId, uid)));
+                },
+            },
+            imageUploads: {
+                delete(productId, uploadId) {
+                    writes.push(() => imageUploads.delete(`${productId}/${uploadId}`));
+                },
+            },
+            rateLimits: {
+                get: bucketId => read(getDocument(rateLimits, bucketId)),
+                set(bucketId, bucketData) {
+                    write(bucketData, bucketData => rateLimits.set(bucketId, bucketData));
+                },
+            },
+            idempotencyKeys: {
+                get: keyId => read(getDocument(idempotencyKeys, keyId)),
+                set(keyId, keyData) {
+                    write(keyData, keyData => idempotencyKeys.set(keyId, keyData));
+                },
+            },
+        };
+    }
+
+    return {
+        accounts: {
+            async verifyIdToken(token, checkRevoked) {
+                const account = getTokenAccount(token, checkRevoked);
+                return {...structuredClone(account.claims), uid: account.uid, sub: account.uid} as DecodedIdToken;
+            },
+            async get(uid) {
+                return getDocument(accounts, uid);
+            },
+            async setClaims(uid, claims) {
+                updateDocument(accounts, uid, {claims});
+            },
+            async setDisabled(uid, disabled) {
+                updateDocument(accounts, uid, {disabled});
+            },
+            async revokeTokens(uid) {
+                getTokenAccount(uid, false);
+            },
+            async delete(uid) {
+                accounts.delete(uid);
+            },
+        },
+        users: {
+            async get(uid) {
+                const userData = getDocument(users, uid);
+                return userData !== null ? {...userData, uid} : null;
+            },
+            async set({uid, ...userData}) {
+                users.set(uid, copyDocumentData(userData));
+            },
+            async update(uid, fields) {
+                updateDocument(users, uid, fields);
+            },
+            async delete(uid) {
+                users.delete(uid);
+            },
+        },
+        products: {
+            async get(productId) {
+                return getDocument(products, productId);
+            },
+            async getAll(productIds) {
+                return getAllDocuments(products, productIds);
+            },
+            async update(productId, fields) {
+                updateDocument(products, productId, fields);
+            },
+            async updateAll(updates) {
+                updates.forEach((fields, productId) => updateDocument(products, productId, fields));
+            },
+            async findByOwner(owner) {
+                return findDocuments(products, productData => productData.owner === owner);
+            },
+            async findByCategory(categoryId, limit) {
+                return findDocuments(products, productData => (productData.category_ids ?? []).includes(categoryId), limit);
+            },
+            async findSearchCandidates(filters, limit) {
+                const createdAt = (productData: ProductData) => toDate(productData.created_at);
+                const candidates = findDocuments(products, productData => productData.deleted_at === null
+                    && (filters.owner === undefined || productData.owner === filters.owner)
+                    && (filters.active === undefined || productData.active === filters.active)
+                    && (filters.search_tokens === undefined
+                        || filters.search_tokens.some(token => (productData.search_tokens ?? []).includes(token)))
+                    && (filters.category_id === undefined || (productData.category_ids ?? []).includes(filters.category_id))
+                    && (filters.brands === undefined || filters.brands.includes(productData.brand))
+                    && (filters.min_price === undefined || productData.price >= filters.min_price)
+                    && (filters.max_price === undefined || productData.price <= filters.max_price)
+                    && (filters.min_stock === undefined || productData.stock >= filters.min_stock)
+                    && (filters.max_stock === undefined || productData.stock <= filters.max_stock)
+                    && (filters.min_created_at === undefined || createdAt(productData) >= filters.min_created_at)
+                    && (filters.max_created_at === undefined || createdAt(productData) <= filters.max_created_at)
+                    && (filters.min_rating === undefined || (productData.rating_average ?? 0) >= filters.min_rating));
+
+                // Keep the newest candidates, as ordered by Firestore
+                return candidates
+                    .sort((a, b) => createdAt(b.data).getTime() - createdAt(a.data).getTime()
+                        || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0))
+                    .slice(0, limit);
+            },
+            async findPurgeable(limit) {
+                return findDocuments(products, productData => !!productData.purge_at && toDate(productData.purge_at) <= new Date(), limit);
+            },
+            async listByOwner(owner, pagination, sortOrder) {
+                return paginateDocuments(products, productData => productData.owner === owner && productData.deleted_at === null,
+                    pagination, sortOrder);
+            },
+            async listActive(pagination, sortOrder) {
+                return paginateDocuments(products, productData => productData.active && productData.deleted_at === null,
+                    pagination, sortOrder);
+            },
+            async listArchived(owner, pagination, sortOrder) {
+                return paginateDocuments(products, productData => !!productData.deleted_at
+                    && (owner === null || productData.owner === owner), pagination, sortOrder);
+            },
+            async countListedByOwner(owner) {
+                return findDocuments(products, productData => productData.owner === owner && productData.active
+                    && productData.deleted_at === null).length;
+            },
+            async purge(productId) {
+                products.delete(productId);
+                findDocuments(stockMovements, movementData => movementData.product_id === productId)
+                    .forEach(movement => stockMovements.delete(movement.id));
+                [...imageUploads.keys()]
+                    .filter(uploadKey => uploadKey.startsWith(`${productId}/`))
+                    .forEach(uploadKey => imageUploads.delete(uploadKey));
+            },
+        },
+        imageUploads: {
+            newId,
+            async get(productId, uploadId) {
+                return getDocument(imageUploads, `${productId}/${uploadId}`);
+            },
+            async set(productId, uploadId, uploadData) {
+                imageUploads.set(`${productId}/${uploadId}`, copyDocumentData(uploadData));
+            },
+            async delete(productId, uploadId) {
+                imageUploads.delete(`${productId}/${uploadId}`);
+            },
+        },
+        stockMovements: {
+            async listByProduct(productId, reason, pagination, sortOrder) {
+                return paginateDocuments(stockMovements, movementData => movementData.product_id === productId
+                    && (reason === null || movementData.reason === reason), pagination, sortOrder);
+            },
+        },
+        carts: {
+            newId,
+            async findPending(owner) {
+                for (const [cartId, cartData] of carts) {
+                    if (cartData.owner === owner && cartData.status === 'pending') {
+                        return {id: cartId, data: structuredClone(cartData)};
+                    }
+                }
+                return null;
+            },
+            async findPendingByProduct(productId) {
+                return [...carts]
+                    .filter(([, cartData]) => cartData.status === 'pending' && (cartData.product_ids ?? []).includes(productId))
+                    .map(([cartId, cartData]) => ({id: cartId, data: structuredClone(cartData)}));
+            },
+            async update(cartId, fields) {
+                updateDocument(carts, cartId, fields);
+            },
+        },
+        reservations: {
+            async getAll(reservationIds) {
+                return getAllDocuments(reservations, reservationIds);
+            },
+            async findExpired(limit) {
+                return [...reservations]
+                    .filter(([, reservationData]) => toDate(reservationData.expires_at) <= new Date())
+                    .slice(0, limit)
+                    .map(([reservationId, reservationData]) => ({id: reservationId, data: structuredClone(reservationData)}));
+            },
+        },
+        coupons: {
+            async get(code) {
+                return getDocument(coupons, code);
+            },
+            async getRedemption(code, uid) {
+                return getDocument(couponRedemptions, `${code}/${uid}`);
+            },
+            async create(couponData) {
+                if (coupons.has(couponData.code)) {
+                    return false;
+                }
+                coupons.set(couponData.code, copyDocumentData(couponData));
+                return true;
+            },
+        },
+        orders: {
+            async get(orderId) {
+                return getDocument(orders, orderId);
+            },
+            async findBySeller(sellerId, minCreatedAt, maxCreatedAt) {
+                return findDocuments(orders, orderData => orderData.sellers.includes(sellerId)
+                    && (minCreatedAt === null || toDate(orderData.created_at) >= minCreatedAt)
+                    && (maxCreatedAt === null || toDate(orderData.created_at) <= maxCreatedAt))
+                    .sort((a, b) => toDate(b.data.created_at).getTime() - toDate(a.data.created_at).getTime());
+            },
+            async hasCompletedWithProduct(owner, productId) {
+                return findDocuments(orders, orderData => orderData.owner === owner && orderData.status === 'completed'
+                    && orderData.product_ids.includes(productId), 1).length > 0;
+            },
+            async hasProduct(productId) {
+                return findDocuments(orders, orderData => orderData.product_ids.includes(productId), 1).length > 0;
+            },
+            async listByOwner(owner, pagination, sortOrder) {
+                return paginateDocuments(orders, orderData => orderData.owner === owner, pagination, sortOrder);
+            },
+            async scrubOwner(owner) {
+                const ownerOrders = findDocuments(orders, orderData => orderData.owner === owner);
+                ownerOrders.forEach(order => updateDocument(orders, order.id, {owner: DELETED_USER_OWNER, shipping_address: null}));
+                return ownerOrders.length;
+            },
+        },
+        reviews: {
+            async listByProduct(productId, pagination, sortOrder) {
+                return paginateDocuments(reviews, reviewData => reviewData.product_id === productId, pagination, sortOrder);
+            },
+            async anonymizeOwner(owner) {
+                const ownerReviews = findDocuments(reviews, reviewData => reviewData.owner === owner);
+                ownerReviews.forEach(review => {
+                    const anonymousOwner = getAnonymousOwner();
+                    reviews.set(getReviewId(review.data.product_id, anonymousOwner), {...review.data, owner: anonymousOwner});
+                    reviews.delete(review.id);
+                });
+                return ownerReviews.length;
+            },
+        },
+        categories: {
+            async get(categoryId) {
+                return getDocument(categories, categoryId);
+            },
+            async list() {
+                return findDocuments(categories, () => true);
+            },
+            async findByName(parentId, name) {
+                return findDocuments(categories, categoryData => categoryData.parent_id === parentId && categoryData.name === name);
+            },
+            async findChildren(parentId, limit) {
+                return findDocuments(categories, categoryData => categoryData.parent_id === parentId, limit);
+            },
+            async findDescendants(categoryId) {
+                return findDocuments(categories, categoryData => categoryData.ancestor_ids.includes(categoryId));
+            },
+            async create(categoryData) {
+                const categoryId = newId();
+                categories.set(categoryId, copyDocumentData(categoryData));
+                return categoryId;
+            },
+            async update(categoryId, fields) {
+                updateDocument(categories, categoryId, fields);
+            },
+            async updateAll(updates) {
+                updates.forEach((fields, categoryId) => updateDocument(categories, categoryId, fields));
+            },
+            async delete(categoryId) {
+                categories.delete(categoryId);
+            },
+        },
+        idempotencyKeys: {
+            async update(keyId, fields) {
+                updateDocument(idempotencyKeys, keyId, fields);
+            },
+            async delete(keyId) {
+                idempotencyKeys.delete(keyId);
+            },
+            async deleteByOwner(owner) {
+                const ownerKeys = findDocuments(idempotencyKeys, keyData => keyData.owner === owner);
+                ownerKeys.forEach(key => idempotencyKeys.delete(key.id));
+                return ownerKeys.length;
+            },
+        },
+        async runTransaction(fn) {
+            const writes: (() => void)[] = [];
+            const result = await fn(createTransactionRepositories(writes));
+            writes.forEach(write => write());
+            return result;
+        },
+    };
+}
+
+// Repositories over the Firestore database and the Firebase Auth of the functions
+const firestoreRepositories = createFirestoreRepositories(firestore, auth);
+
+// --- SEARCH
+
+// Relevance weight of every indexed product field
+const SEARCH_FIELD_WEIGHTS = {
+    title: 4,
+    brand: 3,
+    tags: 3,
+    sku: 3,
+    description: 1,
+}
+
+// Normalize a text into lowercase, accent-folded tokens
+function tokenize(text: string) {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(token => token !== '');
+}
+
+// Get the tokens of every indexed product field
+function getProductFieldTokens(productData: Partial<ProductData>): Record<keyof typeof SEARCH_FIELD_WEIGHTS, string[]> {
+    return {
+        title: tokenize(productData.title ?? ''),
+        brand: tokenize(productData.brand ?? ''),
+        tags: tokenize((productData.tags ?? []).join(' ')),
+        sku: tokenize([productData.sku ?? '', ...Object.values(productData.variants ?? {}).map(variant => variant.sku)].join(' ')),
+        description: tokenize(productData.description ?? ''),
+    }
+}
+
+// Build the search token index of a product
+function buildSearchTokens(productData: Partial<ProductData>) {
+    return [...new Set(Object.values(getProductFieldTokens(productData)).flat())];
+}
+
+// Get the search tokens of a query
+function getQueryTokens(query: string) {
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0) {
+        logWarning(`Invalid argument: Query must contain at least one word`);
+        throw new HTTPError('Query must contain at least one word', 400);
+    }
+    return queryTokens.slice(0, MAX_SEARCH_QUERY_TOKENS);
+}
+
+// Score how relevant a product is for the query tokens
+function scoreProduct(productData: ProductData, queryTokens: string[]) {
+    const fieldTokens = getProductFieldTokens(productData);
+
+    let score = 0;
+    for (const queryToken of queryTokens) {
+        for (const [field, weight] of Object.entries(SEARCH_FIELD_WEIGHTS)) {
+            if (fieldTokens[field as keyof typeof SEARCH_FIELD_WEIGHTS].includes(queryToken)) {
+                score += weight;
+            }
+        }
+    }
+    return score;
+}
+
+// Search the listed products of a query that match any of the query tokens and the filters, scored by relevance.
+// Without a query every product is a candidate. Firestore allows a single array filter per query, so the tokens are
+// matched once the candidates are read if the filters already have the category. The candidates are truncated to the
+// newest MAX_SEARCH_CANDIDATES
+async function searchProducts(repositories: Repositories, filters: ProductCandidateFiltersData, query: string | null) {
+    // Log the action
+    logInfo(`Searching products for query: ${query}`);
+
+    // Get the products matching any token, one more than the candidates to know if they are truncated
+    const queryTokens = query !== null ? getQueryTokens(query) : [];
+    const matchesTokensInQuery = queryTokens.length > 0 && filters.category_id === undefined;
+    const candidates = await repositories.products.findSearchCandidates(
+        matchesTokensInQuery ? {...filters, search_tokens: queryTokens} : filters,
+        MAX_SEARCH_CANDIDATES + 1
+    );
+    const truncated = candidates.length > MAX_SEARCH_CANDIDATES;
+    if (truncated) {
+        logWarning(`Search candidates truncated to the newest ${MAX_SEARCH_CANDIDATES} for query: ${query}`);
+    }
+
+    // Score the products by relevance
+    const results: ProductSearchResultData[] = candidates
+        .slice(0, MAX_SEARCH_CANDIDATES)
+        .filter(candidate => queryTokens.length === 0 || matchesTokensInQuery
+            || queryTokens.some(token => (candidate.data.search_tokens ?? []).includes(token)))
+        .map(candidate => ({...candidate, score: scoreProduct(candidate.data, queryTokens)}));
+    return {results, truncated};
+}
+
+// Get the cursor of a search result, ranked by relevance and then by the newest unless there's a sort order
+function getSearchResultCursor(sortOrder: SortOrderData | null) {
+    return (result: ProductSearchResultData): ResultCursorData => ({
+        values: sortOrder === null
+            ? [result.score, getSortValue(result.data.created_at)]
+            : [getSortValue((result.data as Record<string, unknown>)[sortOrder.field])],
+        id: result.id,
+    });
+}
+
+// Check if a product matches the search filters, any of the brands and any of the tags
+function matchesSearchFilters(productData: ProductData, filters: ProductSearchFiltersData) {
+    return (filters.category_id === null || (productData.category_ids ?? []).includes(filters.category_id))
+        && (filters.brands === null || filters.brands.includes(productData.brand))
+        && (filters.tags === null || filters.tags.some(tag => productData.tags?.includes(tag)));
+}
+
+// Count the products of every brand, tag, category and price bucket
+function getProductFacets(productsData: ProductData[]): ProductFacetsData {
+    const facets: ProductFacetsData = {
+        brands: {},
+        tags: {},
+        categories: {},
+        price: PRICE_FACET_BOUNDS.map((min, i) => ({min, max: PRICE_FACET_BOUNDS[i + 1] ?? null, count: 0})),
+    };
+    for (const productData of productsData) {
+        facets.brands[productData.brand] = (facets.brands[productData.brand] ?? 0) + 1;
+        for (const tag of new Set(productData.tags ?? [])) {
+            facets.tags[tag] = (facets.tags[tag] ?? 0) + 1;
+        }
+        for (const categoryId of productData.category_ids ?? []) {
+            facets.categories[categoryId] = (facets.categories[categoryId] ?? 0) + 1;
+        }
+        const bucket = facets.price.find(bucket => productData.price >= bucket.min
+            && (bucket.max === null || productData.price < bucket.max));
+        if (bucket) {
+            bucket.count++;
+        }
+    }
+    return facets;
+}
+
+// --- PAGINATION
+
+// Sort orders of the product listings
+const PRODUCT_SORT_ORDERS: Record<string, SortOrderData> = {
+    created_at_desc: {field: 'created_at', direction: 'desc'},
+    created_at_asc: {field: 'created_at', direction: 'asc'},
+    price_asc: {field: 'price', direction: 'asc'},
+    price_desc: {field: 'price', direction: 'desc'},
+}
+
+// Sort orders of the product searches, where null is the relevance ranking
+const SEARCH_SORT_ORDERS: Record<string, SortOrderData | null> = {
+    relevance: null,
+    ...PRODUCT_SORT_ORDERS,
+}
+
+// Sort orders of the order listings
+const ORDER_SORT_ORDERS: Record<string, SortOrderData> = {
+    created_at_desc: {field: 'created_at', direction: 'desc'},
+    created_at_asc: {field: 'created_at', direction: 'asc'},
+    total_desc: {field: 'total', direction: 'desc'},
+    total_asc: {field: 'total', direction: 'asc'},
+}
+
+// Sort orders of the sale listings
+const SALE_SORT_ORDERS: Record<string, SortOrderData> = {
+    created_at_desc: {field: 'created_at', direction: 'desc'},
+    created_at_asc: {field: 'created_at', direction: 'asc'},
+}
+
+// Encode an opaque page token
+function encodePageToken(pageToken: PageTokenData) {
+    return Buffer.from(JSON.stringify(pageToken)).toString('base64url');
+}
+
+// Decode an opaque page token, which must have been issued for the same sort order
+function decodePageToken(pageToken: string, sort: string) {
+    let pageTokenData: PageTokenData;
+    try {
+        pageTokenData = JSON.parse(Buffer.from(pageToken, 'base64url').toString());
+    } catch (error) {
+        logWarning(`Invalid page token: ${pageToken}`);
+        throw new HTTPError('Invalid page token', 400);
+    }
+
+    if (pageTokenData?.values !== undefined && !Array.isArray(pageTokenData.values)) {
+        logWarning(`Invalid page token values: ${pageToken}`);
+        throw new HTTPError('Invalid page token', 400);
+    }
+    if (pageTokenData?.sort !== sort) {
+        logWarning(`Page token was issued for a different sort order: ${pageTokenData?.sort}`);
+        throw new HTTPError('Page token does not match the sort order', 400);
+    }
+    return pageTokenData;
+}
+
+// Encode a cursor value, so timestamps survive the page token
+function encodeCursorValue(value: unknown) {
+    if (value instanceof Date) {
+        return {timestamp: value.getTime()};
+    }
+    return value instanceof Timestamp ? {timestamp: value.toMillis()} : value;
+}
+
+// Decode a cursor value, the page token comes from the client so only the values encoded above are accepted
+function decodeCursorValue(value: unknown) {
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+        return value;
+    }
+    const timestamp = typeof value === 'object' ? (value as { timestamp?: unknown }).timestamp : undefined;
+    if (typeof timestamp !== 'number' || !Number.isFinite(timestamp)) {
+        logWarning(`Invalid page token cursor value: ${JSON.stringify(value)}`);
+        throw new HTTPError('Invalid page token', 400);
+    }
+    return Timestamp.fromMillis(timestamp);
+}
+
+// Get a comparable value of a sort field
+function getSortValue(value: unknown) {
+    if (value instanceof Timestamp) {
+        return value.toMillis();
+    }
+    if (value instanceof Date) {
+        return value.getTime();
+    }
+    return value as number;
+}
+
+// Compare two documents data by a sort order
+function compareBySortOrder(a: Record<string, any>, b: Record<string, any>, sortOrder: SortOrderData) {
+    const difference = getSortValue(a[sortOrder.field]) - getSortValue(b[sortOrder.field]);
+    return sortOrder.direction === 'asc' ? difference : -difference;
+}
+
+// Get the pagination fields of a listing request body schema
+function paginationFields(sortOrders: Record<string, SortOrderData | null>, defaultSort: string) {
+    return {
+        limit: positiveNonZeroNumberField({integer: true, max: CONFIG.maxPageSize}).default(CONFIG.defaultPageSize),
+        offset: positiveNumberField({integer: true}).default(0),
+        page_token: nonEmptyStringField().optional(),
+        sort: enumField(Object.keys(sortOrders)).default(defaultSort),
+        include_total_count: booleanField().default(true),
+    }
+}
+
+// Get the pagination of a validated listing request
+function getPagination(data: RequestData<ReturnType<typeof paginationFields>>): PaginationData {
+    const {limit, offset, page_token, sort, include_total_count} = data;
+
+    // The offset is only kept for backward compatibility
+    let pageToken = null;
+    if (page_token !== null) {
+        if (offset !== 0) {
+            logWarning(`Invalid argument: Page token can't be combined with offset`);
+            throw new HTTPError('Page token can\'t be combined with offset', 400);
+        }
+        pageToken = decodePageToken(page_token, sort);
+    }
+
+    return {limit, offset, pageToken, sort, includeTotalCount: include_total_count};
+}
+
+// Get a page of a query, ordered by the sort field and then by the document ID
+async function paginateQuery<T>(query: Query, pagination: PaginationData, sortOrder: SortOrderData): Promise<PageData<RecordData<T>>> {
+    let pageQuery = query
+        .orderBy(sortOrder.field, sortOrder.direction)
+        .orderBy(FieldPath.documentId(), sortOrder.direction);
+
+    // Start after the last document of the previous page
+    if (pagination.pageToken !== null) {
+        pageQuery = pageQuery.startAfter(
+            ...(pagination.pageToken.values ?? []).map(decodeCursorValue),
+            pagination.pageToken.id
+        );
+    } else if (pagination.offset > 0) {
+        pageQuery = pageQuery.offset(pagination.offset);
+    }
+
+    // Fetch one more document to know if there's a next page
+    const [totalCountSnapshot, pageSnapshot] = await Promise.all([
+        pagination.includeTotalCount ? query.count().get() : null,
+        pageQuery.limit(pagination.limit + 1).get(),
+    ]);
+    const docs = pageSnapshot.docs.slice(0, pagination.limit);
+
+    // Build the next page token from the last document
+    let nextPageToken = null;
+    if (pageSnapshot.docs.length > pagination.limit) {
+        const lastDoc = docs[docs.length - 1];
+        nextPageToken = encodePageToken({
+            sort: pagination.sort,
+            values: [encodeCursorValue(lastDoc.get(sortOrder.field))],
+            id: lastDoc.id,
+        });
+    }
+
+    return {
+        items: docs.map(doc => ({id: doc.id, data: doc.data() as T})),
+        nextPageToken,
+        totalCount: totalCountSnapshot?.data().count ?? null,
+    };
+}
+
+// Compare two result cursors by their values and then by their IDs
+function compareResultCursors(a: ResultCursorData, b: ResultCursorData, direction: 'asc' | 'desc') {
+    let difference = 0;
+    for (let i = 0; i < a.values.length && difference === 0; i++) {
+        difference = a.values[i] - b.values[i];
+    }
+    difference = difference || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+    return direction === 'asc' ? difference : -difference;
+}
+
+// Get a page of results that were fetched in memory, sorted by their cursors. The page token has the cursor of the
+// last result, so the next page starts after it even if results were added or removed meanwhile
+function paginateResults<T>(
+    results: T[],
+    pagination: PaginationData,
+    getCursor: (result: T) => ResultCursorData,
+    direction: 'asc' | 'desc'
+): PageData<T> {
+    const cursors = new Map(results.map(result => [result, getCursor(result)]));
+    const getResultCursor = (result: T) => cursors.get(result) as ResultCursorData;
+    const sortedResults = [...results].sort((a, b) => compareResultCursors(getResultCursor(a), getResultCursor(b), direction));
+
+    // Start after the last result of the previous page
+    let start = pagination.offset;
+    if (pagination.pageToken !== null) {
+        const {values, id} = pagination.pageToken;
+        if (values === undefined || typeof id !== 'string') {
+            logWarning(`Invalid page token cursor: ${JSON.stringify(pagination.pageToken)}`);
+            throw new HTTPError('Invalid page token', 400);
+        }
+        const cursor = {values: values.map(value => getSortValue(decodeCursorValue(value))), id};
+        start = sortedResults.findIndex(result => compareResultCursors(getResultCursor(result), cursor, direction) > 0);
+        start = start === -1 ? sortedResults.length : start;
+    }
+    const items = sortedResults.slice(start, start + pagination.limit);
+
+    // Build the next page token from the last result
+    let nextPageToken = null;
+    if (start + pagination.limit < sortedResults.length) {
+        const lastCursor = getResultCursor(items[items.length - 1]);
+        nextPageToken = encodePageToken({sort: pagination.sort, values: lastCursor.values, id: lastCursor.id});
+    }
+
+    return {items, nextPageToken, totalCount: pagination.includeTotalCount ? sortedResults.length : null};
+}
+
+// Get the pagination fields of a listing response
+function getPageResponse<T>(page: PageData<T>) {
+    const pageResponse: { next_page_token: string | null, total_count?: number } = {
+        next_page_token: page.nextPageToken,
+    };
+    if (page.totalCount !== null) {
+        pageResponse.total_count = page.totalCount;
+    }
+    return pageResponse;
+}
+
+// Check if a product has variants
+function hasVariants(productData: ProductData) {
+    return Object.keys(productData.variants ?? {}).length > 0;
+}
+
+// Find the product data as sold by one of its variants, with the variant price, stock, SKU and image. Products
+// without variants are sold as they are, null if the variant doesn't match the product
+function findVariantProductData(productData: ProductData, variantId: string | null): ProductData | null {
+    if (!hasVariants(productData)) {
+        return variantId === null ? productData : null;
+    }
+    const variantData = variantId !== null ? productData.variants?.[variantId] : undefined;
+    if (!variantData) {
+        return null;
+    }
+    return {
+        ...productData,
+        price: variantData.price,
+        stock: variantData.stock,
+        reserved: variantData.reserved ?? 0,
+        active: productData.active && variantData.active,
+        sku: variantData.sku,
+        image_url: variantData.image_url || productData.image_url,
+    };
+}
+
+// Get the product data as sold by one of its variants
+function getVariantProductData(productData: ProductData, variantId: string | null) {
+    if (variantId === null && hasVariants(productData)) {
+        logWarning(`Product "${productData.title}" requires a variant`);
+        throw new HTTPError('A variant is required for this product', 400);
+    }
+    if (variantId !== null && !hasVariants(productData)) {
+        logWarning(`Product "${productData.title}" has no variants`);
+        throw new HTTPError('Product has no variants', 400);
+    }
+
+    const variantProductData = findVariantProductData(productData, variantId);
+    if (variantProductData === null) {
+        logWarning(`Variant ${variantId} not found for product "${productData.title}"`);
+        throw new HTTPError('Variant not found', 404);
+    }
+    return variantProductData;
+}
+
+// Check if the product is active
+async function checkProductActive(productData: ProductData) {
+    if (!productData?.active) {
+        logWarning(`Product is inactive: ${productData.title}`);
+        throw new HTTPError('Product is inactive', 400);
+    }
+}
+
+// Get the available stock of a product, which excludes the reserved units
+function getAvailableStock(productData: ProductData) {
+    return productData.stock - (productData.reserved ?? 0);
+}
+
+// Get the product data with its available stock, and the one of every variant
+function withAvailableStock(productData: ProductData) {
+    const variants: Record<string, ProductVariantData & { available: number }> = {};
+    for (const [variantId, variantData] of Object.entries(productData.variants ?? {})) {
+        variants[variantId] = {...variantData, available: Math.max(variantData.stock - (variantData.reserved ?? 0), 0)};
+    }
+    return {...getProductResponseData(productData), variants, available: Math.max(getAvailableStock(productData), 0)};
+}
+
+// Get the product data sent in the responses, without the search index
+function getProductResponseData({search_tokens, ...productData}: ProductData): ProductResponseData {
+    return productData;
+}
+
+// Check if the product has stock, the units already reserved for the cart line are counted as available
+async function checkProductStock(productData: ProductData, quantity: number, reservedQuantity = 0) {
+    const availableStock = getAvailableStock(productData) + reservedQuantity;
+    if (availableStock <= 0) {
+        logWarning(`Product "${productData.title}" is out of stock.`);
+        throw new HTTPError('Product is out of stock', 400);
+    }
+    if (quantity && availableStock < quantity) {
+        logWarning(`Not enough stock for product "${productData.title}". Requested: ${quantity}, Available: ${availableStock}`);
+        throw new HTTPError('Not enough stock', 400);
+    }
+}
+
+// --- CART
+
+// Check if the price of a cart line still matches the current product price
+function checkCartLinePrice(productData: ProductData, price: number) {
+    if (productData.price !== price) {
+        logWarning(`Price of product "${productData.title}" changed from ${price} to ${productData.price}`);
+        throw new HTTPError('Product price has changed, refresh the cart to accept the new price', 409);
+    }
+}
+
+// Get the key of a cart line, the product ID when it has no variant
+function getCartLineKey(productId: string, variantId: string | null) {
+    return variantId === null ? productId : `${productId}:${variantId}`;
+}
+
+// Get the product ID of a cart line, the lines added before variants existed are keyed by product ID
+function getCartLineProductId(lineKey: string, line: CartData['products'][string]) {
+    return line.product_id ?? lineKey;
+}
+
+// Get the IDs of the products of the cart lines, indexed so the carts holding a product can be found
+function getCartProductIds(products: CartData['products']) {
+    return [...new Set(Object.entries(products).map(([lineKey, line]) => getCartLineProductId(lineKey, line)))];
+}
+
+// Get the issues of a cart line compared with the current product data
+function getCartLineIssues(line: { price: number, quantity: number }, productData: ProductData | null, reservedQuantity: number) {
+    const issues: CartLineIssue[] = [];
+    if (productData === null) {
+        issues.push('deleted');
+        return issues;
+    }
+    if (productData.price !== line.price) {
+        issues.push('price_changed');
+    }
+    if (!productData.active) {
+        issues.push('inactive');
+    }
+    if (getAvailableStock(productData) + reservedQuantity < line.quantity) {
+        issues.push('over_stock');
+    }
+    return issues;
+}
+
+// Get the lines of a cart, hydrated with the current product data
+function getCartLines(
+    cartData: CartData,
+    productsData: Record<string, ProductData | null>,
+    reservedQuantities: Record<string, number>
+) {
+    const lines: Record<string, CartLineData> = {};
+    for (const [lineKey, line] of Object.entries(cartData.products ?? {})) {
+        const productData = productsData[lineKey] ?? null;
+        const reservedQuantity = reservedQuantities[lineKey] ?? 0;
+        const variantId = line.variant_id ?? null;
+        lines[lineKey] = {
+            product_id: getCartLineProductId(lineKey, line),
+            variant_id: variantId,
+            options: variantId !== null ? productData?.variants?.[variantId]?.options ?? null : null,
+            quantity: line.quantity,
+            price: line.price,
+            current_price: productData?.price ?? null,
+            title: productData?.title ?? null,
+            image_url: productData?.image_url ?? null,
+            active: productData?.active ?? false,
+            available_stock: productData ? Math.max(getAvailableStock(productData) + reservedQuantity, 0) : 0,
+            reserved_quantity: reservedQuantity,
+            issues: getCartLineIssues(line, productData, reservedQuantity),
+        };
+    }
+    return lines;
+}
+
+// Get the stock reservation ID of a cart line
+function getStockReservationId(cartId: string, lineKey: string) {
+    return `${cartId}_${lineKey}`;
+}
+
+// Reserve units of a product variant for a cart line in a transaction, replacing its previous reservation. The
+// product and the reservation are read here, so the other reads of the transaction must come first
+async function reserveStock(
+    transaction: TransactionRepositories,
+    cartId: string,
+    owner: string,
+    productId: string,
+    variantId: string | null,
+    quantity: number
+) {
+    // Log the action
+    logInfo(`Reserving ${quantity} units of product ${productId} (variant: ${variantId}) for cart ${cartId}`);
+
+    const reservationId = getStockReservationId(cartId, getCartLineKey(productId, variantId));
+    const [productData, reservationsData] = await Promise.all([
+        transaction.products.get(productId),
+        transaction.reservations.getAll([reservationId]),
+    ]);
+    if (productData === null) {
+        logWarning(`Product not found with ID: ${productId}`);
+        throw new HTTPError('Product not found', 404);
+    }
+
+    // Check the stock, counting the units already reserved for this line
+    const reservedQuantity = reservationsData.get(reservationId)?.quantity ?? 0;
+    await checkProductStock(getVariantProductData(productData, variantId), quantity, reservedQuantity);
+
+    const reservation: StockReservationData = {
+        cart_id: cartId,
+        owner,
+        product_id: productId,
+        variant_id: variantId,
+        quantity,
+        expires_at: new Date(Date.now() + STOCK_RESERVATION_TTL_MINUTES * 60 * 1000),
+    };
+    transaction.reservations.set(reservationId, reservation);
+    if (quantity !== reservedQuantity) {
+        applyStockMovement(transaction, productId, productData, {
+            variant_id: variantId,
+            reserved_delta: quantity - reservedQuantity,
+            reason: quantity > reservedQuantity ? 'reservation' : 'release',
+            actor: owner,
+            cart_id: cartId,
+        });
+    }
+}
+
+// Release stock reservations in a transaction, giving their units back to the products. The actor is null when they
+// expired. The reservations and their products are read here, so the other reads of the transaction must come first
+async function releaseStockReservations(transaction: TransactionRepositories, reservationIds: string[], actor: string | null) {
+    const reservationsData = await transaction.reservations.getAll(reservationIds);
+    const productsData = await transaction.products.getAll(
+        [...new Set([...reservationsData.values()].map(reservationData => reservationData.product_id))]
+    );
+
+    // Several lines may hold variants of the same product, so the product data is kept updated
+    reservationsData.forEach((reservationData, reservationId) => {
+        transaction.reservations.delete(reservationId);
+        const productData = productsData.get(reservationData.product_id);
+        if (productData !== undefined) {
+            productsData.set(reservationData.product_id, applyStockMovement(transaction, reservationData.product_id, productData, {
+                variant_id: reservationData.variant_id ?? null,
+                reserved_delta: -reservationData.quantity,
+                reason: 'release',
+                actor,
+                cart_id: reservationData.cart_id,
+            }));
+        }
+        logInfo(`Released ${reservationData.quantity} units of product ${reservationData.product_id} for cart ${reservationData.cart_id}`);
+    });
+}
+
+// Get the reserved quantity of every line of a cart
+async function getCartReservedQuantities(repositories: Repositories, cartId: string, cartData: CartData) {
+    const reservedQuantities: Record<string, number> = {};
+    const lineKeys = Object.keys(cartData.products ?? {});
+    const reservationsData = await repositories.reservations.getAll(
+        lineKeys.map(lineKey => getStockReservationId(cartId, lineKey))
+    );
+    for (const lineKey of lineKeys) {
+        const reservationData = reservationsData.get(getStockReservationId(cartId, lineKey));
+        if (reservationData !== undefined) {
+            reservedQuantities[lineKey] = reservationData.quantity;
+        }
+    }
+    return reservedQuantities;
+}
+
+// --- VALIDATION
+
+// Validation error data
+type ValidationErrorData = {
+    field: string,
+    code: string,
+    message: string,
+}
+
+// Parse a field value, pushing the validation errors found
+type FieldParser<T> = (fieldValue: unknown, fieldName: string, errors: ValidationErrorData[]) => T
+
+// OpenAPI schema object, also describing the fields of the request bodies
+type OpenApiSchemaData = { [keyword: string]: unknown }
+
+// Field schema of a request body
+class FieldSchema<T> {
+    readonly spec: OpenApiSchemaData;
+    readonly parse: FieldParser<T>;
+    readonly required: boolean;
+    readonly defaultValue: T | null;
+
+    constructor(spec: OpenApiSchemaData, parse: FieldParser<T>, required = true, defaultValue: T | null = null) {
+        this.spec = spec;
+        this.parse = parse;
+        this.required = required;
+        this.defaultValue = defaultValue;
+    }
+
+    // Allow the field to be missing, in which case it's null
+    optional(): FieldSchema<T | null> {
+        return new FieldSchema<T | null>(this.spec, this.parse, false, null);
+    }
+
+    // Allow the field to be missing, in which case it takes the default value
+    default(defaultValue: T): FieldSchema<T> {
+        return new FieldSchema<T>(this.spec, this.parse, false, defaultValue);
+    }
+}
+
+// Request body schema
+type RequestSchema = Record<string, FieldSchema<any>>
+
+// Request body data described by a schema
+type RequestData<S extends RequestSchema> = {
+    [K in keyof S]: S[K] extends FieldSchema<infer T> ? T : never
+}
+
+// Number field options
+type NumberFieldOptions = {
+    min?: number,
+    exclusiveMin?: boolean,
+    max?: number,
+    integer?: boolean,
+}
+
+// Push a validation error
+function pushValidationError(errors: ValidationErrorData[], field: string, code: string, message: string) {
+    errors.push({field, code, message});
+}
+
+// String field, which is trimmed
+function stringField() {
+    return new FieldSchema<string>({type: 'string'}, (fieldValue, fieldName, errors) => {
+        if (typeof fieldValue !== 'string') {
+            pushValidationError(errors, fieldName, 'invalid_type', `${fieldName} must be a string`);
+            return '';
+        }
+        return fieldValue.trim();
+    });
+}
+
+// Non-empty string field, which is trimmed
+function nonEmptyStringField() {
+    const parseString = stringField().parse;
+    return new FieldSchema<string>({type: 'string', minLength: 1}, (fieldValue, fieldName, errors) => {
+        const value = parseString(fieldValue, fieldName, errors);
+        if (typeof fieldValue === 'string' && value === '') {
+            pushValidationError(errors, fieldName, 'empty', `${fieldName} must be a non-empty string`);
+        }
+        return value;
+    });
+}
+
+// String field restricted to some values
+function enumField<T extends string>(values: readonly T[]) {
+    return new FieldSchema<T>({type: 'string', enum: values}, (fieldValue, fieldName, errors) => {
+        if (!values.includes(fieldValue as T)) {
+            pushValidationError(errors, fieldName, 'invalid_value', `${fieldName} must be one of ${values.join(', ')}`);
+        }
+        return fieldValue as T;
+    });
+}
+
+// Number field, numeric strings are coerced to numbers
+function numberField({min, exclusiveMin = false, max, integer = false}: NumberFieldOptions = {}) {
+    const spec = {
+        type: integer ? 'integer' : 'number',
+        ...(min !== undefined ? {minimum: min} : {}),
+        ...(exclusiveMin ? {exclusiveMinimum: true} : {}),
+        ...(max !== undefined ? {maximum: max} : {}),
+    };
+    return new FieldSchema<number>(spec, (fieldValue, fieldName, errors) => {
+        const value = typeof fieldValue === 'string' && fieldValue.trim() !== '' ? Number(fieldValue) : fieldValue;
+        if (typeof value !== 'number' || !isFinite(value)) {
+            pushValidationError(errors, fieldName, 'invalid_type', `${fieldName} must be a number`);
+            return 0;
+        }
+        if (integer && !Number.isInteger(value)) {
+            pushValidationError(errors, fieldName, 'invalid_type', `${fieldName} must be an integer`);
+        }
+        if (min !== undefined && (exclusiveMin ? value <= min : value < min)) {
+            pushValidationError(errors, fieldName, 'too_small', `${fieldName} must be ${exclusiveMin ? 'greater than' : 'at least'} ${min}`);
+        }
+        if (max !== undefined && value > max) {
+            pushValidationError(errors, fieldName, 'too_large', `${fieldName} must be at most ${max}`);
+        }
+        return value;
+    });
+}
+
+// Positive number field
+function positiveNumberField(options: Omit<NumberFieldOptions, 'min' | 'exclusiveMin'> = {}) {
+    return numberField({...options, min: 0});
+}
+
+// Positive non-zero number field
+function positiveNonZeroNumberField(options: Omit<NumberFieldOptions, 'min' | 'exclusiveMin'> = {}) {
+    return numberField({...options, min: 0, exclusiveMin: true});
+}
+
+// Boolean field, 'true' and 'false' strings are coerced to booleans
+function booleanField() {
+    return new FieldSchema<boolean>({type: 'boolean'}, (fieldValue, fieldName, errors) => {
+        if (fieldValue === 'true' || fieldValue === 'false') {
+            return fieldValue === 'true';
+        }
+        if (typeof fieldValue !== 'boolean') {
+            pushValidationError(errors, fieldName, 'invalid_type', `${fieldName} must be a boolean`);
+        }
+        return fieldValue as boolean;
+    });
+}
+
+// Date field, given as a date string
+function dateField() {
+    return new FieldSchema<Date>({type: 'string', format: 'date-time'}, (fieldValue, fieldName, errors) => {
+        const value = typeof fieldValue === 'string' ? new Date(fieldValue) : null;
+        if (value === null || isNaN(value.getTime())) {
+            pushValidationError(errors, fieldName, 'invalid_date', `${fieldName} must be a valid date`);
+            return new Date(NaN);
+        }
+        return value;
+    });
+}
+
+// Array field, every item is parsed by the item schema, comma-separated strings are split
+function arrayField<T>(
+    itemSchema: FieldSchema<T>,
+    {minLength = 0, maxLength = null}: { minLength?: number, maxLength?: number | null } = {}
+) {
+    return new FieldSchema<T[]>({
+        type: 'array',
+        items: itemSchema.spec,
+        ...(minLength > 0 ? {minItems: minLength} : {}),
+        ...(maxLength !== null ? {maxItems: maxLength} : {}),
+    }, (fieldValue, fieldName, errors) => {
+        if (typeof fieldValue === 'string') {
+            fieldValue = fieldValue === '' ? [] : fieldValue.split(',');
+        }
+        if (!Array.isArray(fieldValue)) {
+            pushValidationError(errors, fieldName, 'invalid_type', `${fieldName} must be an array`);
+            return [];
+        }
+        if (fieldValue.length < minLength) {
+            pushValidationError(errors, fieldName, 'too_small', `${fieldName} must have at least ${minLength} items`);
+        }
+        if (maxLength !== null && fieldValue.length > maxLength) {
+            pushValidationError(errors, fieldName, 'too_large', `${fieldName} must have at most ${maxLength} items`);
+        }
+        return fieldValue.map((item, i) => itemSchema.parse(item, `${fieldName}[${i}]`, errors));
+    });
+}
+
+// Object field, every property is parsed by the object schema
+function objectField<S extends RequestSchema>(schema: S) {
+    return new FieldSchema<RequestData<S>>(getRequestSchemaSpec(schema), (fieldValue, fieldName, errors) => {
+        if (typeof fieldValue !== 'object' || fieldValue === null || Array.isArray(fieldValue)) {
+            pushValidationError(errors, fieldName, 'invalid_type', `${fieldName} must be an object`);
+            return {} as RequestData<S>;
+        }
+        return parseFields(schema, fieldValue as Record<string, unknown>, `${fieldName}.`, errors);
+    });
+}
+
+// String map field, every value must be a non-empty string
+function stringMapField() {
+    const parseString = nonEmptyStringField().parse;
+    return new FieldSchema<Record<string, string>>({type: 'object', additionalProperties: {type: 'string', minLength: 1}}, (fieldValue, fieldName, errors) => {
+        if (typeof fieldValue !== 'object' || fieldValue === null || Array.isArray(fieldValue)) {
+            pushValidationError(errors, fieldName, 'invalid_type', `${fieldName} must be an object`);
+            return {};
+        }
+        const value: Record<string, string> = {};
+        for (const [key, item] of Object.entries(fieldValue)) {
+            value[key] = parseString(item, `${fieldName}.${key}`, errors);
+        }
+        return value;
+    });
+}
+
+// Parse the fields of an object against a schema, missing and null fields are treated alike
+function parseFields<S extends RequestSchema>(
+    schema: S,
+    fields: Record<string, unknown>,
+    prefix: string,
+    errors: ValidationErrorData[]
+): RequestData<S> {
+    // Reject the fields that aren't part of the schema
+    for (const fieldName of Object.keys(fields)) {
+        if (!Object.prototype.hasOwnProperty.call(schema, fieldName)) {
+            pushValidationError(errors, prefix + fieldName, 'unknown_field', `${prefix + fieldName} is not a valid field`);
+        }
+    }
+
+    // Parse every field
+    const data: Record<string, unknown> = {};
+    for (const [fieldName, fieldSchema] of Object.entries(schema)) {
+        const fieldValue = fields[fieldName];
+        if (fieldValue === undefined || fieldValue === null) {
+            if (fieldSchema.required) {
+                pushValidationError(errors, prefix + fieldName, 'required', `${prefix + fieldName} is required`);
+            }
+            data[fieldName] = fieldSchema.defaultValue;
+            continue;
+        }
+        data[fieldName] = fieldSchema.parse(fieldValue, prefix + fieldName, errors);
+    }
+    return data as RequestData<S>;
+}
+
+// Get the OpenAPI schema of a request body schema, the optional fields are nullable
+function getRequestSchemaSpec(schema: RequestSchema): OpenApiSchemaData {
+    const properties: Record<string, OpenApiSchemaData> = {};
+    for (const [fieldName, fieldSchema] of Object.entries(schema)) {
+        properties[fieldName] = fieldSchema.required ? fieldSchema.spec : {
+            ...fieldSchema.spec,
+            nullable: true,
+            ...(fieldSchema.defaultValue !== null ? {default: fieldSchema.defaultValue} : {}),
+        };
+    }
+
+    const required = Object.keys(schema).filter(fieldName => schema[fieldName].required);
+    return {type: 'object', properties, ...(required.length > 0 ? {required} : {}), additionalProperties: false};
+}
+
+// Validate a request body against a schema, reporting every invalid field at once
+function validateRequestBody<S extends RequestSchema>(schema: S, body: unknown): RequestData<S> {
+    if (body === undefined || body === null) {
+        body = {};
+    }
+    if (typeof body !== 'object' || Array.isArray(body)) {
+        logWarning(`Invalid argument: Request body must be an object`);
+        throw new HTTPError('Request body must be an object', 400);
+    }
+
+    const errors: ValidationErrorData[] = [];
+    const data = parseFields(schema, body as Record<string, unknown>, '', errors);
+    checkValidationErrors(errors);
+    return data;
+}
+
+// Check if any validation error was found, also used for the checks that involve several fields
+function checkValidationErrors(errors: ValidationErrorData[]) {
+    if (errors.length > 0) {
+        logWarning(`Invalid request body: ${JSON.stringify(errors)}`);
+        throw new HTTPError('Invalid request body', 400, errors);
+    }
+}
+
+// Empty request body schema
+const emptyBodySchema = {}
+
+// Create user request body schema
+const createUserBodySchema = {
+    first_name: nonEmptyStringField(),
+    last_name: nonEmptyStringField(),
+}
+
+// Function to create a new user
+export const create_user = defineEndpoint(
+    {
+        name: 'create_user',
+        summary: 'Create a new user',
+        auth: 'user',
+        rateLimit: 'write',
+        idempotent: true,
+        body: createUserBodySchema,
+        response: messageSpec(),
+        errors: [409],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo('Function create_user called');
+
+        // Extract data from request body
+        const {first_name, last_name} = validateRequestBody(createUserBodySchema, req.body);
+
+        // Check the user hasn't created their profile yet, it's edited through update_user
+        if (await repositories.users.get(decodedIdToken.uid) !== null) {
+            logWarning(`User ${decodedIdToken.uid} already exists`);
+            throw new HTTPError('User already exists', 409);
+        }
+
+        // Create a new user object
+        await repositories.users.set({uid: decodedIdToken.uid, first_name, last_name, addresses: {}, default_address_id: null});
+
+        return {message: 'User created successfully'};
+    }
+);
+
+// Function to get a user by ID
+export const get_user_by_id = defineEndpoint(
+    {
+        name: 'get_user_by_id',
+        summary: 'Get the user, with their addresses',
+        auth: 'user',
+        rateLimit: 'read',
+        body: emptyBodySchema,
+        response: objectSpec({user: refSpec('User')}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo('Function get_user_by_id called');
+
+        // Validate input data
+        validateRequestBody(emptyBodySchema, req.body);
+
+        // Retrieve the user
+        const userData = await getUserData(repositories, decodedIdToken.uid);
+
+        // Return the user data
+        logInfo(`Retrieved user data for ID: ${userData.uid}`);
+
+        return {user: userData};
+    }
+);
+
+// Cart product request body schema
+const cartProductBodySchema = {
+    product_id: nonEmptyStringField(),
+    variant_id: nonEmptyStringField().optional(),
+}
+
+// Cart product quantity request body schema
+const cartProductQuantityBodySchema = {
+    ...cartProductBodySchema,
+    quantity: positiveNonZeroNumberField({integer: true}),
+}
+
+// Function to add a product to the cart
+export const add_product_to_cart = defineEndpoint(
+    {
+        name: 'add_product_to_cart',
+        summary: 'Add a product to the cart',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: cartProductQuantityBodySchema,
+        response: messageSpec(),
+        errors: [404, 409],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function add_product_to_cart called`);
+
+        // Validate input data
+        const {product_id, variant_id, quantity} = validateRequestBody(cartProductQuantityBodySchema, req.body);
+        logInfo(`Adding product ${product_id} (variant: ${variant_id}) with quantity ${quantity} to cart for user ${decodedIdToken.uid}`);
+
+        // Get the current pending cart
+        const cart = await getCurrentPendingCart(repositories, decodedIdToken);
+
+        // Get the product data, as sold by the variant
+        const baseProductData = await getProductDataById(repositories, product_id);
+        const productData = getVariantProductData(baseProductData, variant_id);
+        const lineKey = getCartLineKey(product_id, variant_id);
+
+        // Check if the product is active
+        await checkProductActive(productData);
+
+        // Check if the product has stock
+        await checkProductStock(productData, quantity);
+
+        // Check if the current user is the owner of the product
+        const ownerData = productData.owner as UserData;
+        if (ownerData.uid === decodedIdToken.uid) {
+            logWarning(`User ${decodedIdToken.uid} cannot add their own product to the cart`);
+            throw new HTTPError('You cannot add your own product to the cart', 400);
+        }
+
+        if (cart === null) {
+            // Create a new cart, reserving the units in the same transaction
+            const cartId = repositories.carts.newId();
+            const newCart: CartData = {
+                owner: decodedIdToken.uid,
+                status: 'pending',
+                products: {
+                    [lineKey]: {
+                        product_id,
+                        variant_id,
+                        price: productData.price,
+                        quantity: quantity,
+                    },
+                },
+                product_ids: [product_id],
+                notices: [],
+            };
+            await repositories.runTransaction(async (transaction) => {
+                if (CONFIG.stockReservationsEnabled) {
+                    await reserveStock(transaction, cartId, decodedIdToken.uid, product_id, variant_id, quantity);
+                }
+                transaction.carts.create(cartId, newCart);
+            });
+            logInfo(`New cart created and product "${productData.title}" added`);
+        } else {
+            // Update the cart and reserve the units of the whole line in the same transaction
+            await repositories.runTransaction(async (transaction) => {
+                const cartData = await transaction.carts.get(cart.id);
+                if (cartData === null || cartData.status !== 'pending') {
+                    logWarning(`Cart ${cart.id} is no longer pending`);
+                    throw new HTTPError('Cart is no longer pending', 409);
+                }
+                const existingProduct = cartData.products && cartData.products[lineKey];
+
+                const updatedProducts = {...cartData.products};
+
+                // Check if the product already exists in the cart
+                if (existingProduct) {
+                    // Update the quantity of the existing product
+                    updatedProducts[lineKey].quantity += quantity;
+                    logInfo(`Incrementing quantity of product "${productData.title}" in cart to ${updatedProducts[lineKey].quantity}`);
+                } else {
+                    updatedProducts[lineKey] = {
+                        product_id,
+                        variant_id,
+                        price: productData.price,
+                        quantity: quantity,
+                    };
+                    logInfo(`Adding product "${productData.title}" to existing cart`);
+                }
+
+                if (CONFIG.stockReservationsEnabled) {
+                    await reserveStock(transaction, cart.id, decodedIdToken.uid, product_id, variant_id, updatedProducts[lineKey].quantity);
+                }
+                transaction.carts.update(cart.id, {products: updatedProducts, product_ids: getCartProductIds(updatedProducts)});
+            });
+            logInfo(`Product "${productData.title}" added to cart successfully`);
+        }
+
+        return {message: 'Product added to cart successfully'};
+    }
+);
+
+// Function to remove a product from the cart
+export const remove_product_from_cart = defineEndpoint(
+    {
+        name: 'remove_product_from_cart',
+        summary: 'Remove a product from the cart',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: cartProductBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function remove_product_from_cart called`);
+
+        // Validate input data
+        const {product_id, variant_id} = validateRequestBody(cartProductBodySchema, req.body);
+        const lineKey = getCartLineKey(product_id, variant_id);
+
+        // Get the current pending cart
+        const cart = await getCurrentPendingCart(repositories, decodedIdToken);
+        if (cart === null) {
+            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
+            throw new HTTPError('No pending cart found for this user', 404);
+        }
+
+        // Get the cart document
+        const cartData = cart.data;
+        if (!cartData?.products[lineKey]) {
+            logWarning(`Product ${product_id} (variant: ${variant_id}) not found in the cart`);
+            throw new HTTPError('Product not found in the cart', 404);
+        }
+
+        // Remove the product from the cart, releasing the units reserved for the line in the same transaction
+        const updatedProducts = {...cartData.products};
+        delete updatedProducts[lineKey];
+
+        await repositories.runTransaction(async (transaction) => {
+            await releaseStockReservations(transaction, [getStockReservationId(cart.id, lineKey)], decodedIdToken.uid);
+            transaction.carts.update(cart.id, {products: updatedProducts, product_ids: getCartProductIds(updatedProducts)});
+        });
+        logInfo(`Product ${product_id} removed from cart successfully`);
+
+        return {message: 'Product removed from cart successfully'};
+    }
+);
+
+// Function to update the quantity of a product in the cart
+export const update_product_quantity_in_cart = defineEndpoint(
+    {
+        name: 'update_product_quantity_in_cart',
+        summary: 'Update the quantity of a product in the cart',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: cartProductQuantityBodySchema,
+        response: messageSpec(),
+        errors: [404, 409],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function update_product_quantity_in_cart called`);
+
+        // Validate input data
+        const {product_id, variant_id, quantity} = validateRequestBody(cartProductQuantityBodySchema, req.body);
+        const lineKey = getCartLineKey(product_id, variant_id);
+
+        // Get the current pending cart
+        const cart = await getCurrentPendingCart(repositories, decodedIdToken);
+        if (cart === null) {
+            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
+            throw new HTTPError('No pending cart found for this user', 404);
+        }
+
+        // Get the cart document
+        const cartData = cart.data;
+        if (!cartData?.products[lineKey]) {
+            logWarning(`Product ${product_id} (variant: ${variant_id}) not found in the cart`)
+            throw new HTTPError('Product not found in the cart', 404);
+        }
+
+        // Get the product data, as sold by the variant
+        const baseProductData = await getProductDataById(repositories, product_id);
+        const productData = getVariantProductData(baseProductData, variant_id);
+
+        // Check if the product is active
+        await checkProductActive(productData);
+
+        // Check if the product has stock
+        if (!CONFIG.stockReservationsEnabled) {
+            await checkProductStock(productData, quantity);
+        }
+
+        // Update the quantity, reserving the units of the line in the same transaction
+        const updatedProducts = {...cartData.products};
+        updatedProducts[lineKey].quantity = quantity;
+
+        await repositories.runTransaction(async (transaction) => {
+            if (CONFIG.stockReservationsEnabled) {
+                await reserveStock(transaction, cart.id, decodedIdToken.uid, product_id, variant_id, quantity);
+            }
+            transaction.carts.update(cart.id, {products: updatedProducts, product_ids: getCartProductIds(updatedProducts)});
+        });
+        logInfo(`Product ${product_id} quantity updated to ${quantity} in cart`)
+
+        return {message: 'Product quantity updated successfully in cart'};
+    }
+);
+
+// Function to get the cart
+export const get_cart = defineEndpoint(
+    {
+        name: 'get_cart',
+        summary: 'Get the cart',
+        auth: ['buyer'],
+        rateLimit: 'read',
+        body: emptyBodySchema,
+        response: objectSpec({
+            cart: refSpec('Cart'),
+            lines: mapSpec(refSpec('CartLine')),
+            has_issues: {type: 'boolean'},
+            pricing: refSpec('CartPricing'),
+            coupon_error: {type: 'string', nullable: true},
+            notices: {type: 'array', items: refSpec('CartNotice')},
+        }),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function get_cart called`)
+
+        // Validate input data
+        validateRequestBody(emptyBodySchema, req.body);
+
+        // Get the current pending cart
+        const cart = await getCurrentPendingCart(repositories, decodedIdToken);
+        if (cart === null) {
+            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`)
+            throw new HTTPError('No pending cart found for this user', 404);
+        }
+
+        // Get the cart document
+        const cartData = cart.data;
+        logInfo(`Retrieved cart ${cart.id} with ${Object.keys(cartData.products ?? {}).length} lines`)
+
+        // Get the products of the cart, and hydrate every line with their current data
+        const productsData = await getCartProductsData(repositories, cartData);
+        const reservedQuantities = await getCartReservedQuantities(repositories, cart.id, cartData);
+        const lines = getCartLines(cartData, productsData, reservedQuantities);
+
+        // Price the cart, dropping the coupon discount if it no longer applies
+        let coupon: CouponData | null = null;
+        let couponError: string | null = null;
+        if (cartData.coupon_code) {
+            try {
+                coupon = await getApplicableCoupon(repositories, cartData.coupon_code, decodedIdToken.uid, cartData, productsData);
+            } catch (error) {
+                if (!(error instanceof HTTPError)) {
+                    throw error;
+                }
+                couponError = error.message;
+            }
+        }
+        const pricing = priceCart(cartData, productsData, coupon);
+
+        return {
+            cart: cartData,
+            lines,
+            has_issues: Object.values(lines).some(line => line.issues.length > 0),
+            pricing,
+            coupon_error: couponError,
+            notices: cartData.notices ?? [],
+        };
+    }
+);
+
+// Function to refresh the cart, accepting the current prices of its products
+export const refresh_cart = defineEndpoint(
+    {
+        name: 'refresh_cart',
+        summary: 'Refresh the cart, accepting the current prices of its products',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: emptyBodySchema,
+        response: messageSpec({lines: mapSpec(refSpec('CartLine')), has_issues: {type: 'boolean'}}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function refresh_cart called`);
+
+        // Validate input data
+        validateRequestBody(emptyBodySchema, req.body);
+
+        // Get the current pending cart
+        const cart = await getCurrentPendingCart(repositories, decodedIdToken);
+        if (cart === null) {
+            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
+            throw new HTTPError('No pending cart found for this user', 404);
+        }
+
+        // Get the cart document
+        const cartData = cart.data;
+
+        // Update the price of every line whose product and variant still exist
+        const productsData = await getCartProductsData(repositories, cartData);
+        const updatedProducts = {...cartData.products};
+        for (const [lineKey, productData] of Object.entries(productsData)) {
+            if (productData !== null && updatedProducts[lineKey].price !== productData.price) {
+                logInfo(`Repricing product "${productData.title}" from ${updatedProducts[lineKey].price} to ${productData.price}`);
+                updatedProducts[lineKey] = {...updatedProducts[lineKey], price: productData.price};
+            }
+        }
+
+        await repositories.carts.update(cart.id, {products: updatedProducts, product_ids: getCartProductIds(updatedProducts)});
+        logInfo(`Cart refreshed successfully for user: ${decodedIdToken.uid}`);
+
+        const reservedQuantities = await getCartReservedQuantities(repositories, cart.id, cartData);
+        const lines = getCartLines({...cartData, products: updatedProducts}, productsData, reservedQuantities);
+        return {
+            message: 'Cart refreshed successfully',
+            lines,
+            has_issues: Object.values(lines).some(line => line.issues.length > 0),
+        };
+    }
+);
+
+// Function to clear the cart
+export const clear_cart = defineEndpoint(
+    {
+        name: 'clear_cart',
+        summary: 'Clear the cart',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: emptyBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function clear_cart called`)
+
+        // Validate input data
+        validateRequestBody(emptyBodySchema, req.body);
+
+        // Get the current pending cart
+        const cart = await getCurrentPendingCart(repositories, decodedIdToken);
+        if (cart === null) {
+            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
+            throw new HTTPError('No pending cart found for this user', 404);
+        }
+
+        // Get the cart document
+        const cartData = cart.data;
+
+        // Clear the cart, releasing the units reserved for every line in the same transaction
+        await repositories.runTransaction(async (transaction) => {
+            const reservationIds = Object.keys(cartData.products ?? {}).map(lineKey => getStockReservationId(cart.id, lineKey));
+            await releaseStockReservations(transaction, reservationIds, decodedIdToken.uid);
+            transaction.carts.update(cart.id, {products: {}, product_ids: []});
+        });
+        logInfo(`Cart cleared successfully for user: ${decodedIdToken.uid}`);
+
+        return {message: 'Cart cleared successfully'};
+    }
+);
+
+// Checkout request body schema, the default address of the user is used unless another one is given
+const checkoutBodySchema = {
+    address_id: nonEmptyStringField().optional(),
+}
+
+// Function to check out the cart
+export const checkout_cart = defineEndpoint(
+    {
+        name: 'checkout_cart',
+        summary: 'Check out the cart, shipping to the default address of the user unless another one is given',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: checkoutBodySchema,
+        response: messageSpec({order_id: {type: 'string'}}),
+        errors: [404, 409],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function checkout_cart called`)
+
+        // Validate input data
+        const {address_id} = validateRequestBody(checkoutBodySchema, req.body);
+
+        // Get the current pending cart
+        const cart = await getCurrentPendingCart(repositories, decodedIdToken);
+        if (cart === null) {
+            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
+            throw new HTTPError('No pending cart found for this user', 404);
+        }
+
+        // Get the shipping address, which is copied into the order
+        const shippingAddress = await getShippingAddress(repositories, decodedIdToken.uid, address_id);
+
+        // Place the order in a transaction, so the stock can't be sold twice
+        const orderId = await repositories.runTransaction(async (transaction) => {
+            // Re-read the cart inside the transaction
+            const cartData = await transaction.carts.get(cart.id);
+            if (cartData === null || cartData.status !== 'pending') {
+                logWarning(`Cart ${cart.id} is no longer pending`);
+                throw new HTTPError('Cart is no longer pending', 409);
+            }
+
+            // Check if the cart has products
+            const lineKeys = Object.keys(cartData.products ?? {});
+            if (lineKeys.length === 0) {
+                logWarning(`Cart ${cart.id} is empty`);
+                throw new HTTPError('Cart is empty', 400);
+            }
+
+            // Re-read every product with its current data, and the units reserved for every line
+            const productIds = [...new Set(lineKeys.map(lineKey => getCartLineProductId(lineKey, cartData.products[lineKey])))];
+            const reservationIds = lineKeys.map(lineKey => getStockReservationId(cart.id, lineKey));
+            const [productsById, reservationsData] = await Promise.all([
+                transaction.products.getAll(productIds),
+                transaction.reservations.getAll(reservationIds),
+            ]);
+            const reservedQuantities: Record<string, number> = {};
+            lineKeys.forEach((lineKey, i) => {
+                const reservationData = reservationsData.get(reservationIds[i]);
+                if (reservationData !== undefined) {
+                    reservedQuantities[lineKey] = reservationData.quantity;
+                }
+            });
+
+            // Check every line of the cart
+            const errors: CheckoutErrorData[] = [];
+            const items: OrderItemData[] = [];
+            const productsData: Record<string, ProductData | null> = {};
+            const stockUpdates: [string, string | null, number, number][] = [];
+            for (const lineKey of lineKeys) {
+                const line = cartData.products[lineKey];
+                const productId = getCartLineProductId(lineKey, line);
+                const variantId = line.variant_id ?? null;
+                const {price, quantity} = line;
+
+                const baseProductData = productsById.get(productId);
+                if (baseProductData === undefined || baseProductData.deleted_at) {
+                    errors.push({product_id: productId, variant_id: variantId, error: 'Product not found'});
+                    continue;
+                }
+
+                let productData: ProductData;
+                try {
+                    productData = getVariantProductData(baseProductData, variantId);
+                    await checkProductActive(productData);
+                    await checkProductStock(productData, quantity, reservedQuantities[lineKey]);
+                    checkCartLinePrice(productData, price);
+                } catch (error) {
+                    if (!(error instanceof HTTPError)) {
+                        throw error;
+                    }
+                    errors.push({product_id: productId, variant_id: variantId, error: error.message});
+                    continue;
+                }
+
+                items.push({
+                    product_id: productId,
+                    variant_id: variantId,
+                    sku: productData.sku,
+                    options: variantId !== null ? productData.variants?.[variantId]?.options ?? null : null,
+                    title: productData.title,
+                    brand: productData.brand,
+                    image_url: productData.image_url,
+                    seller: productData.owner as string,
+                    unit_price: price,
+                    quantity,
+                    subtotal: 0,
+                    discount: 0,
+                    total: 0,
+                });
+                productsData[lineKey] = productData;
+                stockUpdates.push([productId, variantId, quantity, reservedQuantities[lineKey] ?? 0]);
+            }
+
+            // Reject the whole checkout if any line failed
+            if (errors.length > 0) {
+                logWarning(`Checkout rejected for user ${decodedIdToken.uid}: ${JSON.stringify(errors)}`);
+                throw new HTTPError('Some products in the cart cannot be checked out', 409, errors);
+            }
+
+            // Re-validate the coupon, if any
+            let coupon: CouponData | null = null;
+            let redemptionData: CouponRedemptionData | null = null;
+            if (cartData.coupon_code) {
+                [coupon, redemptionData] = await Promise.all([
+                    transaction.coupons.get(cartData.coupon_code),
+                    transaction.coupons.getRedemption(cartData.coupon_code, decodedIdToken.uid),
+                ]);
+
+                try {
+                    checkCouponApplicable(coupon, redemptionData, cartData, productsData);
+                } catch (error) {
+                    if (!(error instanceof HTTPError)) {
+                        throw error;
+                    }
+                    logWarning(`Checkout rejected for user ${decodedIdToken.uid}: ${error.message}`);
+                    throw new HTTPError(`Coupon is no longer valid: ${error.message}`, 409);
+                }
+            }
+
+            // Price every line, applying the coupon discount
+            const pricing = priceCart(cartData, productsData, coupon);
+            for (const item of items) {
+                const {subtotal, discount, total} = pricing.lines[getCartLineKey(item.product_id, item.variant_id)];
+                Object.assign(item, {subtotal, discount, total});
+            }
+
+            // Consume a use of the coupon
+            if (coupon !== null) {
+                transaction.coupons.update(coupon.code, {uses: coupon.uses + 1});
+                transaction.coupons.setRedemption(coupon.code, decodedIdToken.uid, {
+                    owner: decodedIdToken.uid,
+                    uses: (redemptionData?.uses ?? 0) + 1,
+                });
+            }
+
+            // Create the order
+            const newOrder: OrderData = {
+                owner: decodedIdToken.uid,
+                cart_id: cart.id,
+                status: 'completed',
+                items,
+                product_ids: [...new Set(items.map(item => item.product_id))],
+                sellers: [...new Set(items.map(item => item.seller))],
+                item_count: items.reduce((count, item) => count + item.quantity, 0),
+                coupon_code: pricing.coupon_code,
+                subtotal: pricing.subtotal,
+                discount: pricing.discount,
+                total: pricing.total,
+                shipping_address: shippingAddress,
+                created_at: new Date(),
+            };
+            const orderId = transaction.orders.create(newOrder);
+
+            // Decrement the stock of every product, converting the reserved units into a sale. The product data is
+            // updated by every movement, as the lines of its variants move its stock in turn
+            for (const [productId, variantId, quantity, reservedQuantity] of stockUpdates) {
+                productsById.set(productId, applyStockMovement(transaction, productId, productsById.get(productId)!, {
+                    variant_id: variantId,
+                    delta: -quantity,
+                    reserved_delta: -reservedQuantity,
+                    reason: 'sale',
+                    actor: decodedIdToken.uid,
+                    order_id: orderId,
+                    cart_id: cart.id,
+                }));
+            }
+            for (const reservationId of reservationsData.keys()) {
+                transaction.reservations.delete(reservationId);
+            }
+
+            // Update the cart status to 'completed'
+            transaction.carts.update(cart.id, {status: 'completed', order_id: orderId});
+
+            return orderId;
+        });
+        logInfo(`Checkout completed successfully for user: ${decodedIdToken.uid}, order: ${orderId}`);
+
+        return {message: 'Checkout completed successfully', order_id: orderId};
+    }
+);
+
+// Product request body schema
+const productBodySchema = {
+    product_id: nonEmptyStringField(),
+}
+
+// Product option request body schema
+const productOptionBodySchema = {
+    name: nonEmptyStringField(),
+    values: arrayField(nonEmptyStringField(), {minLength: 1}),
+}
+
+// Product variant request body schema, the ID is given to keep an existing variant
+const productVariantBodySchema = {
+    id: nonEmptyStringField().optional(),
+    sku: nonEmptyStringField(),
+    options: stringMapField(),
+    price: positiveNonZeroNumberField(),
+    stock: positiveNumberField({integer: true}),
+    active: booleanField().default(true),
+    image_url: stringField().default(''),
+}
+
+// Create product request body schema, the price and stock are set per variant if the product has variants
+const createProductBodySchema = {
+    title: nonEmptyStringField(),
+    description: nonEmptyStringField(),
+    price: positiveNonZeroNumberField().optional(),
+    stock: positiveNonZeroNumberField({integer: true}).optional(),
+    active: booleanField(),
+    brand: nonEmptyStringField(),
+    tags: arrayField(nonEmptyStringField()),
+    image_url: nonEmptyStringField().default(''),
+    sku: nonEmptyStringField(),
+    options: arrayField(objectField(productOptionBodySchema)).optional(),
+    variants: arrayField(objectField(productVariantBodySchema)).optional(),
+    category_id: nonEmptyStringField().optional(),
+}
+
+// Update product request body schema, where every product field is optional
+const updateProductBodySchema = {
+    ...productBodySchema,
+    title: createProductBodySchema.title.optional(),
+    description: createProductBodySchema.description.optional(),
+    price: createProductBodySchema.price.optional(),
+    stock: createProductBodySchema.stock.optional(),
+    active: createProductBodySchema.active.optional(),
+    brand: createProductBodySchema.brand.optional(),
+    tags: createProductBodySchema.tags.optional(),
+    image_url: createProductBodySchema.image_url.optional(),
+    sku: createProductBodySchema.sku.optional(),
+    options: createProductBodySchema.options,
+    variants: createProductBodySchema.variants,
+    category_id: createProductBodySchema.category_id,
+}
+
+// Build the variants of a product from the request, keeping the reserved units of the existing variants
+function buildProductVariants(
+    options: ProductOptionData[],
+    variants: RequestData<typeof productVariantBodySchema>[],
+    currentVariants: Record<string, ProductVariantData>
+) {
+    const errors: ValidationErrorData[] = [];
+
+    // Check the option axes
+    const optionNames = options.map(option => option.name);
+    if (optionNames.length === 0) {
+        pushValidationError(errors, 'options', 'required', 'options are required for a product with variants');
+    }
+    options.forEach((option, i) => {
+        if (optionNames.indexOf(option.name) !== i) {
+            pushValidationError(errors, `options[${i}].name`, 'invalid_value', `options[${i}].name must be unique`);
+        }
+        if (new Set(option.values).size !== option.values.length) {
+            pushValidationError(errors, `options[${i}].values`, 'invalid_value', `options[${i}].values must be unique`);
+        }
+    });
+
+    // Check every variant has a unique value of every option axis, and a unique SKU
+    const productVariants: Record<string, ProductVariantData> = {};
+    const combinations = new Set<string>();
+    const skus = new Set<string>();
+    variants.forEach((variant, i) => {
+        const fieldName = `variants[${i}]`;
+        for (const option of options) {
+            const value = variant.options[option.name];
+            if (value === undefined) {
+                pushValidationError(errors, `${fieldName}.options.${option.name}`, 'required', `${fieldName}.options.${option.name} is required`);
+            } else if (!option.values.includes(value)) {
+                pushValidationError(errors, `${fieldName}.options.${option.name}`, 'invalid_value', `${fieldName}.options.${option.name} must be one of ${option.values.join(', ')}`);
+            }
+        }
+        for (const name of Object.keys(variant.options)) {
+            if (!optionNames.includes(name)) {
+                pushValidationError(errors, `${fieldName}.options.${name}`, 'unknown_field', `${fieldName}.options.${name} is not a product option`);
+            }
+        }
+
+        const combination = JSON.stringify(optionNames.map(name => variant.options[name]));
+        if (combinations.has(combination)) {
+            pushValidationError(errors, `${fieldName}.options`, 'invalid_value', `${fieldName}.options must be unique among the variants`);
+        }
+        combinations.add(combination);
+        if (skus.has(variant.sku)) {
+            pushValidationError(errors, `${fieldName}.sku`, 'invalid_value', `${fieldName}.sku must be unique among the variants`);
+        }
+        skus.add(variant.sku);
+
+        // Keep the ID of an existing variant, or generate one that's safe to use in field paths
+        if (variant.id !== null && (!(variant.id in currentVariants) || variant.id in productVariants)) {
+            pushValidationError(errors, `${fieldName}.id`, 'invalid_value', `${fieldName}.id must be the ID of an existing variant`);
+        }
+        const variantId = variant.id ?? `v${randomBytes(6).toString('hex')}`;
+        productVariants[variantId] = {
+            sku: variant.sku,
+            options: variant.options,
+            price: variant.price,
+            stock: variant.stock,
+            reserved: currentVariants[variantId]?.reserved ?? 0,
+            active: variant.active,
+            image_url: variant.image_url,
+        };
+    });
+
+    checkValidationErrors(errors);
+    return productVariants;
+}
+
+// Get the lowest price, the total stock and the total reserved units of the variants of a product
+function getVariantTotals(variants: Record<string, ProductVariantData>) {
+    const variantsData = Object.values(variants);
+    return {
+        price: Math.min(...variantsData.map(variant => variant.price)),
+        stock: variantsData.reduce((total, variant) => total + variant.stock, 0),
+        reserved: variantsData.reduce((total, variant) => total + (variant.reserved ?? 0), 0),
+    };
+}
+
+// Replace the variants of a product in a transaction, recording the stock change of every variant in the ledger.
+// Products without variants move their stock to the variants, and back to the given stock when every variant is removed
+function replaceProductVariants(
+    transaction: TransactionRepositories,
+    productId: string,
+    productData: ProductData,
+    options: ProductOptionData[],
+    variants: Record<string, ProductVariantData>,
+    stock: number,
+    actor: string
+): Record<string, unknown> {
+    const currentVariants = productData.variants ?? {};
+
+    // Remove the variants that weren't given, which can't have reserved units
+    for (const [variantId, variantData] of Object.entries(currentVariants)) {
+        if (variantId in variants) {
+            continue;
+        }
+        if ((variantData.reserved ?? 0) > 0) {
+            logWarning(`Variant ${variantId} of product ${productId} has reserved units`);
+            throw new HTTPError(`Variant ${variantData.sku} has reserved units and cannot be removed`, 409);
+        }
+        if (variantData.stock !== 0) {
+            recordStockMovement(transaction, productId, {
+                variant_id: variantId,
+                delta: -variantData.stock,
+                reason: 'manual_edit',
+                actor,
+                note: 'Variant removed',
+            }, 0, 0);
+        }
+    }
+
+    // Record the stock change of the kept variants, and the initial stock of the new ones
+    for (const [variantId, variantData] of Object.entries(variants)) {
+        const currentStock = currentVariants[variantId]?.stock ?? 0;
+        if (variantData.stock !== currentStock) {
+            recordStockMovement(transaction, productId, {
+                variant_id: variantId,
+                delta: variantData.stock - currentStock,
+                reason: variantId in currentVariants ? 'manual_edit' : 'initial',
+                actor,
+            }, variantData.stock, variantData.reserved);
+        }
+    }
+
+    // Move the stock of the product to or from its variants
+    const hadVariants = hasVariants(productData);
+    const hasNewVariants = Object.keys(variants).length > 0;
+    if (!hadVariants && hasNewVariants && productData.stock !== 0) {
+        if ((productData.reserved ?? 0) > 0) {
+            logWarning(`Product ${productId} has reserved units`);
+            throw new HTTPError('Product has reserved units, variants cannot be added yet', 409);
+        }
+        recordStockMovement(transaction, productId, {
+            delta: -productData.stock,
+            reason: 'manual_edit',
+            actor,
+            note: 'Stock moved to the variants',
+        }, 0, 0);
+    } else if (hadVariants && !hasNewVariants && stock !== 0) {
+        recordStockMovement(transaction, productId, {
+            delta: stock,
+            reason: 'manual_edit',
+            actor,
+            note: 'Stock moved from the variants',
+        }, stock, 0);
+    }
+
+    if (!hasNewVariants) {
+        return {options: [], variants: {}, stock, reserved: hadVariants ? 0 : productData.reserved ?? 0};
+    }
+    return {options, variants, ...getVariantTotals(variants)};
+}
+
+// Function to create a new product
+export const create_product = defineEndpoint(
+    {
+        name: 'create_product',
+        summary: 'Create a new product',
+        auth: ['seller'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: createProductBodySchema,
+        response: messageSpec({product_id: {type: 'string'}}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function create_product called`);
+
+        // Validate input data
+        const {
+            title,
+            description,
+            price,
+            stock,
+            active,
+            brand,
+            tags,
+            image_url,
+            sku,
+            options,
+            variants,
+            category_id,
+        } = validateRequestBody(createProductBodySchema, req.body);
+
+        // Check the price and stock are given per variant, or for the product if it has no variants
+        const errors: ValidationErrorData[] = [];
+        let productVariants: Record<string, ProductVariantData> = {};
+        if (variants !== null && variants.length > 0) {
+            if (price !== null) {
+                pushValidationError(errors, 'price', 'invalid_value', 'price must be set per variant');
+            }
+            if (stock !== null) {
+                pushValidationError(errors, 'stock', 'invalid_value', 'stock must be set per variant');
+            }
+            checkValidationErrors(errors);
+            productVariants = buildProductVariants(options ?? [], variants, {});
+        } else {
+            if (price === null) {
+                pushValidationError(errors, 'price', 'required', 'price is required');
+            }
+            if (stock === null) {
+                pushValidationError(errors, 'stock', 'required', 'stock is required');
+            }
+            if (options !== null && options.length > 0) {
+                pushValidationError(errors, 'options', 'invalid_value', 'options require variants');
+            }
+            checkValidationErrors(errors);
+        }
+
+        // Get the category and its ancestors, if given
+        const categoryIds = category_id !== null ? await getCategoryPathIds(repositories, category_id) : [];
+
+        // Create a new product object, the stock is added through the ledger
+        const newProduct = {
+            title,
+            description,
+            price: Object.keys(productVariants).length > 0 ? getVariantTotals(productVariants).price : price,
+            stock: 0,
+            reserved: 0,
+            active,
+            brand,
+            tags,
+            owner: decodedIdToken.uid,
+            image_url,
+            sku,
+            search_tokens: buildSearchTokens({title, description, brand, tags, sku, variants: productVariants}),
+            rating_average: 0,
+            rating_count: 0,
+            rating_sum: 0,
+            options: options ?? [],
+            category_id,
+            category_ids: categoryIds,
+            deleted_at: null,
+            purge_at: null,
+            variants: Object.fromEntries(
+                Object.entries(productVariants).map(([variantId, variantData]) => [variantId, {...variantData, stock: 0}])
+            ),
+            created_at: new Date(),
+        };
+
+        // Save the product to Firestore, recording its initial stock in the ledger. The product data is updated by
+        // every movement, as the variants move its stock in turn
+        const productId = await repositories.runTransaction(async (transaction) => {
+            let productData = newProduct as ProductData;
+            const productId = transaction.products.create(productData);
+            if (stock !== null) {
+                productData = applyStockMovement(transaction, productId, productData, {
+                    delta: stock,
+                    reason: 'initial',
+                    actor: decodedIdToken.uid,
+                });
+            }
+            for (const [variantId, variantData] of Object.entries(productVariants)) {
+                productData = applyStockMovement(transaction, productId, productData, {
+                    variant_id: variantId,
+                    delta: variantData.stock,
+                    reason: 'initial',
+                    actor: decodedIdToken.uid,
+                });
+            }
+            return productId;
+        });
+        logInfo(`Product created successfully with ID: ${productId}`);
+
+        return {message: 'Product created successfully', product_id: productId};
+    }
+);
+
+// Function to get a product by ID
+export const get_product_by_id = defineEndpoint(
+    {
+        name: 'get_product_by_id',
+        summary: 'Get a product by ID',
+        auth: 'user',
+        rateLimit: 'read',
+        body: productBodySchema,
+        response: objectSpec({product: refSpec('Product')}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function get_product_by_id called`);
+
+        // Validate input data
+        const {product_id} = validateRequestBody(productBodySchema, req.body);
+
+        // Get the product data
+        const productData = await getProductDataById(repositories, product_id);
+        logInfo(`Retrieved product ${product_id}`);
+
+        // Check if the product is active if the user is not the owner nor a moderator
+        const ownerData = productData.owner as UserData;
+        if (ownerData.uid !== decodedIdToken.uid && !hasRole(decodedIdToken, 'moderator')) {
+            logWarning(`User ${decodedIdToken.uid} is not the owner of product ${product_id}`);
+            await checkProductActive(productData);
+        } else {
+            logInfo(`User ${decodedIdToken.uid} is the owner of product ${product_id}`);
+        }
+
+        return {product: withAvailableStock(productData)}
+    }
+);
+
+// Function to update a product
+export const update_product = defineEndpoint(
+    {
+        name: 'update_product',
+        summary: 'Update a product',
+        auth: 'user',
+        rateLimit: 'write',
+        idempotent: true,
+        body: updateProductBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function update_product called`);
+
+        // Validate input data
+        const {product_id, ...fields} = validateRequestBody(updateProductBodySchema, req.body);
+
+        // Build the updates object from the given fields, the stock and variants are updated through the ledger
+        const {stock, options, variants, ...productFields} = fields;
+        const updates: Record<string, any> = {};
+        for (const [field, value] of Object.entries(productFields)) {
+            if (value !== null) {
+                updates[field] = value;
+            }
+        }
+
+        // Assign the category and its ancestors, if given
+        if (productFields.category_id !== null) {
+            updates.category_ids = await getCategoryPathIds(repositories, productFields.category_id);
+        }
+
+        // Get the product data, moderators can edit the listings they don't own
+        const productData = await getProductDataById(repositories, product_id);
+        const ownerData = productData.owner as UserData;
+        if (ownerData.uid !== decodedIdToken.uid && !hasRole(decodedIdToken, 'moderator')) {
+            logWarning(`User ${decodedIdToken.uid} is not the owner of product ${product_id}`);
+            throw new HTTPError('You are not the owner of this product', 403);
+        }
+
+        await repositories.runTransaction(async (transaction) => {
+            // Re-read the product, so the stock delta is computed against its current stock
+            const currentProductData = await transaction.products.get(product_id);
+            if (currentProductData === null) {
+                logWarning(`Product not found with ID: ${product_id}`);
+                throw new HTTPError('Product not found', 404);
+            }
+            const productUpdates = {...updates};
+
+            // Check the price and stock are given per variant, or for the product if it has no variants
+            const errors: ValidationErrorData[] = [];
+            if (variants !== null && variants.length > 0) {
+                if (updates.price !== undefined) {
+                    pushValidationError(errors, 'price', 'invalid_value', 'price must be set per variant');
+                }
+                if (stock !== null) {
+                    pushValidationError(errors, 'stock', 'invalid_value', 'stock must be set per variant');
+                }
+            } else if (variants !== null && hasVariants(currentProductData)) {
+                if (updates.price === undefined) {
+                    pushValidationError(errors, 'price', 'required', 'price is required to remove the variants');
+                }
+                if (stock === null) {
+                    pushValidationError(errors, 'stock', 'required', 'stock is required to remove the variants');
+                }
+            } else if (variants === null) {
+                if (hasVariants(currentProductData) && updates.price !== undefined) {
+                    pushValidationError(errors, 'price', 'invalid_value', 'price must be set per variant');
+                }
+                if (hasVariants(currentProductData) && stock !== null) {
+                    pushValidationError(errors, 'stock', 'invalid_value', 'stock must be set per variant');
+                }
+                if (options !== null) {
+                    pushValidationError(errors, 'options', 'invalid_value', 'options must be given with the variants');
+                }
+            }
+            checkValidationErrors(errors);
+
+            // Replace the variants, if given
+            if (variants !== null) {
+                const productVariants = buildProductVariants(options ?? [], variants, currentProductData.variants ?? {});
+                Object.assign(productUpdates, replaceProductVariants(
+                    transaction,
+                    product_id,
+                    currentProductData,
+                    options ?? [],
+                    productVariants,
+                    stock ?? 0,
+                    decodedIdToken.uid
+                ));
+            }
+
+            // Rebuild the search token index if any indexed field changed
+            if (variants !== null || Object.keys(productUpdates).some(field => field in SEARCH_FIELD_WEIGHTS)) {
+                productUpdates.search_tokens = buildSearchTokens({...currentProductData, ...productUpdates});
+            }
+
+            if (Object.keys(productUpdates).length > 0) {
+                transaction.products.update(product_id, productUpdates);
+            }
+            if (variants === null && stock !== null && stock !== currentProductData.stock) {
+                applyStockMovement(transaction, product_id, currentProductData, {
+                    delta: stock - currentProductData.stock,
+                    reason: 'manual_edit',
+                    actor: decodedIdToken.uid,
+                });
+            }
+        });
+        logInfo(`Product ${product_id} updated successfully`);
+
+        return {message: 'Product updated successfully'}
+    }
+);
+
+// Function to remove a product, which can be restored with its images until it's purged
+export const remove_product = defineEndpoint(
+    {
+        name: 'remove_product',
+        summary: 'Remove a product, which can be restored with its images until it\'s purged',
+        auth: 'user',
+        rateLimit: 'write',
+        idempotent: true,
+        body: productBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function remove_product called`);
+
+        // Validate input data
+        const {product_id} = validateRequestBody(productBodySchema, req.body);
+
+        // Get the product data, admins can remove the products they don't own
+        const productData = await getProductDataById(repositories, product_id);
+        const ownerData = productData.owner as UserData;
+        if (ownerData.uid !== decodedIdToken.uid && !hasRole(decodedIdToken, 'admin')) {
+            logWarning(`User ${decodedIdToken.uid} is not the owner of product ${product_id}`);
+            throw new HTTPError('You are not the owner of this product', 403);
+        }
+
+        // Archive the product, its images are kept so it can be restored until it's purged with them
+        const deletedAt = new Date();
+        await repositories.products.update(product_id, {
+            deleted_at: deletedAt,
+            purge_at: new Date(deletedAt.getTime() + PRODUCT_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+        });
+        logInfo(`Product ${product_id} removed successfully`);
+
+        return {message: 'Product removed successfully'}
+    }
+);
+
+// Product listing request body schema
+const productListingBodySchema = {
+    ...paginationFields(PRODUCT_SORT_ORDERS, 'created_at_desc'),
+}
+
+// Search my products request body schema, 'title' is kept as an alias of 'query'
+const searchMyProductsBodySchema = {
+    query: nonEmptyStringField().optional(),
+    title: nonEmptyStringField().optional(),
+    ...paginationFields(SEARCH_SORT_ORDERS, 'relevance'),
+}
+
+// Search products request body schema, the query is optional to browse the products by their filters
+const searchProductsBodySchema = {
+    ...searchMyProductsBodySchema,
+    category_id: nonEmptyStringField().optional(),
+    brands: arrayField(nonEmptyStringField(), {minLength: 1, maxLength: MAX_QUERY_DISJUNCTIONS}).optional(),
+    tags: arrayField(nonEmptyStringField(), {minLength: 1}).optional(),
+    min_price: positiveNumberField().optional(),
+    max_price: positiveNumberField().optional(),
+    min_stock: positiveNumberField().optional(),
+    max_stock: positiveNumberField().optional(),
+    min_created_at: dateField().optional(),
+    max_created_at: dateField().optional(),
+    min_rating: numberField({min: 1, max: 5}).optional(),
+}
+
+// Get the search query of a request, given either as 'query' or as 'title'
+function getSearchQuery(query: string | null, title: string | null) {
+    if (query === null && title === null) {
+        logWarning(`Invalid argument: query is required`);
+        throw new HTTPError('Invalid request body', 400, [
+            {field: 'query', code: 'required', message: 'query is required'},
+        ]);
+    }
+    return (query ?? title) as string;
+}
+
+// Get my products
+export const get_my_products = defineEndpoint(
+    {
+        name: 'get_my_products',
+        summary: 'Get my products',
+        auth: 'user',
+        rateLimit: 'read',
+        body: productListingBodySchema,
+        response: pageSpec('products', refSpec('Product')),
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function get_my_products called`);
+
+        // Validate input data
+        const pagination = getPagination(validateRequestBody(productListingBodySchema, req.body));
+
+        // Get a page of the products for the authenticated user
+        const page = await repositories.products.listByOwner(decodedIdToken.uid, pagination, PRODUCT_SORT_ORDERS[pagination.sort]);
+
+        // Get the products
+        const products: Record<string, ProductResponseData & { available: number }> = {};
+        page.items.forEach(product => {
+            products[product.id] = withAvailableStock(product.data);
+        });
+        logInfo(`Retrieved ${Object.keys(products).length} products`);
+
+        return {
+            products,
+            ...getPageResponse(page),
+        };
+    }
+);
+
+// Search products
+export const search_products = defineEndpoint(
+    {
+        name: 'search_products',
+        summary: 'Search products',
+        auth: null,
+        rateLimit: 'public',
+        body: searchProductsBodySchema,
+        response: pageSpec('products', refSpec('Product'), {
+            facets: refSpec('ProductFacets'),
+            candidates_truncated: {
+                type: 'boolean',
+                description: `Whether more than ${MAX_SEARCH_CANDIDATES} products matched. Only the newest ` +
+                    `${MAX_SEARCH_CANDIDATES} are then ranked, paged and counted in the facets and in the total count`,
+            },
+        }),
+    },
+    async (req: Request, res: Response, repositories: Repositories) => {
+        logInfo(`Function search_products called`);
+
+        // Validate input data
+        const body = validateRequestBody(searchProductsBodySchema, req.body);
+        const {min_price, max_price, min_stock, max_stock, min_created_at, max_created_at, min_rating} = body;
+        const {category_id, brands, tags} = body;
+        const query = body.query ?? body.title;
+        const pagination = getPagination(body);
+
+        // Get the active products matching the filters
+        const filters: ProductCandidateFiltersData = {
+            active: true,
+            category_id: category_id ?? undefined,
+            min_price: min_price ?? undefined,
+            max_price: max_price ?? undefined,
+            min_stock: min_stock ?? undefined,
+            max_stock: max_stock ?? undefined,
+            min_created_at: min_created_at ?? undefined,
+            max_created_at: max_created_at ?? undefined,
+            min_rating: min_rating ?? undefined,
+        };
+
+        // Narrow the candidates to the brands, unless the brands times the query tokens are more disjunctions than
+        // Firestore allows. The query tokens aren't matched by Firestore when the category is
+        const queryTokenCount = query !== null && category_id === null ? getQueryTokens(query).length : 1;
+        if (brands !== null && brands.length * queryTokenCount <= MAX_QUERY_DISJUNCTIONS) {
+            filters.brands = brands;
+        }
+
+        // Get the products ranked by relevance, or by the requested sort order. The filters Firestore couldn't apply
+        // are matched on the candidates
+        const search = await searchProducts(repositories, filters, query);
+        const results = search.results.filter(result => matchesSearchFilters(result.data, {category_id, brands, tags}));
+        const sortOrder = SEARCH_SORT_ORDERS[pagination.sort];
+
+        // Count the facets of every matching product
+        const facets = getProductFacets(results.map(result => result.data));
+
+        // Apply pagination
+        const page = paginateResults(results, pagination, getSearchResultCursor(sortOrder), sortOrder?.direction ?? 'desc');
+        const products: Record<string, ProductResponseData & { available: number }> = {};
+        for (const result of page.items) {
+            products[result.id] = withAvailableStock(result.data);
+        }
+        logInfo(`Retrieved ${Object.keys(products).length} products`);
+
+        return {
+            products,
+            facets,
+            candidates_truncated: search.truncated,
+            ...getPageResponse(page),
+        };
+    }
+);
+
+// Search my products
+export const search_my_products = defineEndpoint(
+    {
+        name: 'search_my_products',
+        summary: 'Search my products',
+        auth: 'user',
+        rateLimit: 'read',
+        body: searchMyProductsBodySchema,
+        response: pageSpec('products', refSpec('Product'), {
+            candidates_truncated: {
+                type: 'boolean',
+                description: `Whether more than ${MAX_SEARCH_CANDIDATES} products matched. Only the newest ` +
+                    `${MAX_SEARCH_CANDIDATES} are then ranked, paged and counted in the total count`,
+            },
+        }),
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function search_my_products called`);
+
+        // Validate input data
+        const body = validateRequestBody(searchMyProductsBodySchema, req.body);
+        const query = getSearchQuery(body.query, body.title);
+        const pagination = getPagination(body);
+
+        // Get the products for the authenticated user ranked by relevance, or by the requested sort order
+        const {results, truncated} = await searchProducts(repositories, {owner: decodedIdToken.uid}, query);
+        const sortOrder = SEARCH_SORT_ORDERS[pagination.sort];
+
+        // Apply pagination
+        const page = paginateResults(results, pagination, getSearchResultCursor(sortOrder), sortOrder?.direction ?? 'desc');
+        const products: Record<string, ProductResponseData & { available: number }> = {};
+        for (const result of page.items) {
+            products[result.id] = withAvailableStock(result.data);
+        }
+
+        logInfo(`Retrieved ${Object.keys(products).length} products`);
+
+        return {
+            products,
+            candidates_truncated: truncated,
+            ...getPageResponse(page),
+        };
+    }
+);
+
+// Get the latest products
+export const get_latest_products = defineEndpoint(
+    {
+        name: 'get_latest_products',
+        summary: 'Get the latest products',
+        auth: null,
+        rateLimit: 'public',
+        body: productListingBodySchema,
+        response: pageSpec('products', refSpec('Product')),
+    },
+    async (req: Request, res: Response, repositories: Repositories) => {
+        logInfo(`Function get_latest_products called`);
+
+        // Validate input data
+        const pagination = getPagination(validateRequestBody(productListingBodySchema, req.body));
+
+        // Get a page of the latest products
+        const page = await repositories.products.listActive(pagination, PRODUCT_SORT_ORDERS[pagination.sort]);
+
+        // Get the products
+        const products: Record<string, ProductResponseData & { available: number }> = {};
+        page.items.forEach(product => {
+            products[product.id] = withAvailableStock(product.data);
+        });
+
+        logInfo(`Retrieved ${Object.keys(products).length} products`);
+
+        return {
+            products,
+            ...getPageResponse(page),
+        };
+    }
+);
+
+// Order listing request body schema
+const orderListingBodySchema = {
+    ...paginationFields(ORDER_SORT_ORDERS, 'created_at_desc'),
+}
+
+// Order request body schema
+const orderBodySchema = {
+    order_id: nonEmptyStringField(),
+}
+
+// Get my orders
+export const list_my_orders = defineEndpoint(
+    {
+        name: 'list_my_orders',
+        summary: 'Get my orders',
+        auth: ['buyer'],
+        rateLimit: 'read',
+        body: orderListingBodySchema,
+        response: pageSpec('orders', refSpec('OrderSummary')),
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function list_my_orders called`);
+
+        // Validate input data
+        const pagination = getPagination(validateRequestBody(orderListingBodySchema, req.body));
+
+        // Get a page of the orders for the authenticated user, newest first by default
+        const page = await repositories.orders.listByOwner(decodedIdToken.uid, pagination, ORDER_SORT_ORDERS[pagination.sort]);
+
+        // Get the orders without their line items
+        const orders: Record<string, OrderSummaryData> = {};
+        page.items.forEach(order => {
+            const {items, product_ids, sellers, ...orderSummary} = order.data;
+            orders[order.id] = orderSummary;
+        });
+
+        logInfo(`Retrieved orders: ${Object.keys(orders).join(', ')}`);
+
+        return {
+            orders,
+            ...getPageResponse(page),
+        };
+    }
+);
+
+// Function to get an order by ID
+export const get_order_by_id = defineEndpoint(
+    {
+        name: 'get_order_by_id',
+        summary: 'Get an order by ID',
+        auth: ['buyer'],
+        rateLimit: 'read',
+        body: orderBodySchema,
+        response: objectSpec({order: refSpec('Order')}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function get_order_by_id called`);
+
+        // Validate input data
+        const {order_id} = validateRequestBody(orderBodySchema, req.body);
+
+        // Get the order data, which keeps the product snapshots taken at checkout
+        const orderData = await getOrderDataById(repositories, order_id);
+        if (orderData.owner !== decodedIdToken.uid && !hasRole(decodedIdToken, 'admin')) {
+            logWarning(`User ${decodedIdToken.uid} is not the owner of order ${order_id}`);
+            throw new HTTPError('You are not the owner of this order', 403);
+        }
+        logInfo(`Retrieved order data for ID: ${order_id}`);
+
+        return {order: orderData};
+    }
+);
+
+// Sales date range request body schema
+const salesDateRangeBodySchema = {
+    min_created_at: dateField().optional(),
+    max_created_at: dateField().optional(),
+}
+
+// Sale listing request body schema
+const saleListingBodySchema = {
+    ...salesDateRangeBodySchema,
+    ...paginationFields(SALE_SORT_ORDERS, 'created_at_desc'),
+}
+
+// Sales summary request body schema
+const salesSummaryBodySchema = {
+    ...salesDateRangeBodySchema,
+    group_by: enumField(['day', 'week', 'month'] as const).default('day'),
+}
+
+// Top products request body schema
+const topProductsBodySchema = {
+    ...salesDateRangeBodySchema,
+    sort_by: enumField(['units_sold', 'revenue'] as const).default('units_sold'),
+    limit: positiveNonZeroNumberField({integer: true, max: CONFIG.maxPageSize}).default(CONFIG.defaultPageSize),
+}
+
+// Get the sale lines of my products
+export const get_my_sales = defineEndpoint(
+    {
+        name: 'get_my_sales',
+        summary: 'Get the sale lines of my products',
+        auth: ['seller'],
+        rateLimit: 'read',
+        body: saleListingBodySchema,
+        response: pageSpec('sales', refSpec('Sale'), {}, 'array'),
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function get_my_sales called`);
+
+        // Validate input data
+        const body = validateRequestBody(saleListingBodySchema, req.body);
+        const pagination = getPagination(body);
+
+        // Get the sale lines of the authenticated seller
+        const saleLines = await getSellerSaleLines(repositories, decodedIdToken.uid, body.min_created_at, body.max_created_at);
+
+        // Apply pagination in the requested sort order, the lines of an order are told apart by product and variant
+        const page = paginateResults(saleLines, pagination, line => ({
+            values: [line.created_at.getTime()],
+            id: `${line.order_id}/${line.product_id}/${line.variant_id ?? ''}`,
+        }), SALE_SORT_ORDERS[pagination.sort].direction);
+        logInfo(`Retrieved ${page.items.length} sale lines`);
+
+        return {
+            sales: page.items,
+            ...getPageResponse(page),
+        };
+    }
+);
+
+// Get the summary of the sales of my products
+export const get_my_sales_summary = defineEndpoint(
+    {
+        name: 'get_my_sales_summary',
+        summary: 'Get the summary of the sales of my products',
+        auth: ['seller'],
+        rateLimit: 'read',
+        body: salesSummaryBodySchema,
+        response: objectSpec({
+            totals: refSpec('SalesAggregate'),
+            products: mapSpec(refSpec('SalesAggregate')),
+            periods: mapSpec(refSpec('SalesAggregate')),
+        }),
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function get_my_sales_summary called`);
+
+        // Validate input data
+        const {min_created_at, max_created_at, group_by} = validateRequestBody(salesSummaryBodySchema, req.body);
+
+        // Get the sale lines of the authenticated seller
+        const saleLines = await getSellerSaleLines(repositories, decodedIdToken.uid, min_created_at, max_created_at);
+
+        // Aggregate the units sold and the revenue per product and per period
+        const totals: SalesAggregateData = {units_sold: 0, revenue: 0};
+        const products: Record<string, SalesAggregateData & { title: string }> = {};
+        const periods: Record<string, SalesAggregateData> = {};
+        for (const saleLine of saleLines) {
+            const periodKey = getPeriodKey(saleLine.created_at, group_by);
+            products[saleLine.product_id] ??= {title: saleLine.title, units_sold: 0, revenue: 0};
+            periods[periodKey] ??= {units_sold: 0, revenue: 0};
+
+            for (const aggregate of [totals, products[saleLine.product_id], periods[periodKey]]) {
+                aggregate.units_sold += saleLine.quantity;
+                aggregate.revenue += saleLine.total;
+            }
+        }
+        logInfo(`Aggregated ${saleLines.length} sale lines for seller ${decodedIdToken.uid}`);
+
+        return {
+            totals,
+            products,
+            periods,
+        };
+    }
+);
+
+// Get the top selling products of my catalog
+export const get_my_top_products = defineEndpoint(
+    {
+        name: 'get_my_top_products',
+        summary: 'Get the top selling products of my catalog',
+        auth: ['seller'],
+        rateLimit: 'read',
+        body: topProductsBodySchema,
+        response: objectSpec({products: {type: 'array', items: refSpec('SalesAggregate')}}),
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function get_my_top_products called`);
+
+        // Validate input data
+        const {min_created_at, max_created_at, sort_by, limit} = validateRequestBody(topProductsBodySchema, req.body);
+
+        // Get the sale lines of the authenticated seller
+        const saleLines = await getSellerSaleLines(repositories, decodedIdToken.uid, min_created_at, max_created_at);
+
+        // Aggregate the units sold and the revenue per product
+        const products: Record<string, SalesAggregateData & { product_id: string, title: string }> = {};
+        for (const saleLine of saleLines) {
+            products[saleLine.product_id] ??= {
+                product_id: saleLine.product_id,
+                title: saleLine.title,
+                units_sold: 0,
+                revenue: 0,
+            };
+            products[saleLine.product_id].units_sold += saleLine.quantity;
+            products[saleLine.product_id].revenue += saleLine.total;
+        }
+
+        // Sort the products by the requested aggregate
+        const topProducts = Object.values(products)
+            .sort((a, b) => b[sort_by] - a[sort_by])
+            .slice(0, limit);
+        logInfo(`Retrieved ${topProducts.length} top products`);
+
+        return {products: topProducts};
+    }
+);
+
+
+// --- ADMINISTRATION
+
+// User role request body schema
+const userRoleBodySchema = {
+    uid: nonEmptyStringField(),
+    role: enumField(ROLES),
+}
+
+// User request body schema
+const userBodySchema = {
+    uid: nonEmptyStringField(),
+}
+
+// Set the roles of a user, revoking the tokens issued with the previous roles
+async function setUserRoles(repositories: Repositories, uid: string, update: (roles: Role[]) => Role[]) {
+    const {claims} = await getAccount(repositories, uid);
+    const roles = update(getRoles(claims));
+
+    await repositories.accounts.setClaims(uid, {...claims, roles});
+    await repositories.accounts.revokeTokens(uid);
+    logInfo(`Roles of user ${uid} set to: ${roles.join(', ')}`);
+
+    return roles;
+}
+
+// Function to grant a role to a user, the first admin has to be granted through the Admin SDK
+export const grant_role = defineEndpoint(
+    {
+        name: 'grant_role',
+        summary: 'Grant a role to a user, the first admin has to be granted through the Admin SDK',
+        auth: ['admin'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: userRoleBodySchema,
+        response: messageSpec({roles: {type: 'array', items: {type: 'string', enum: ROLES}}}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories) => {
+        logInfo(`Function grant_role called`);
+
+        // Validate input data
+        const {uid, role} = validateRequestBody(userRoleBodySchema, req.body);
+
+        // Add the role to the user
+        const roles = await setUserRoles(repositories, uid, roles => [...new Set([...roles, role])]);
+
+        return {message: 'Role granted successfully', roles};
+    }
+);
+
+// Function to revoke a role from a user
+export const revoke_role = defineEndpoint(
+    {
+        name: 'revoke_role',
+        summary: 'Revoke a role from a user',
+        auth: ['admin'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: userRoleBodySchema,
+        response: messageSpec({roles: {type: 'array', items: {type: 'string', enum: ROLES}}}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function revoke_role called`);
+
+        // Validate input data
+        const {uid, role} = validateRequestBody(userRoleBodySchema, req.body);
+        if (uid === decodedIdToken.uid && role === 'admin') {
+            logWarning(`User ${decodedIdToken.uid} cannot revoke their own admin role`);
+            throw new HTTPError('You cannot revoke your own admin role', 400);
+        }
+
+        // Remove the role from the user
+        const roles = await setUserRoles(repositories, uid, roles => roles.filter(userRole => userRole !== role));
+
+        return {message: 'Role revoked successfully', roles};
+    }
+);
+
+// Function to suspend a user, so their tokens are rejected
+export const suspend_user = defineEndpoint(
+    {
+        name: 'suspend_user',
+        summary: 'Suspend a user, so their tokens are rejected',
+        auth: ['admin'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: userBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function suspend_user called`);
+
+        // Validate input data
+        const {uid} = validateRequestBody(userBodySchema, req.body);
+        if (uid === decodedIdToken.uid) {
+            logWarning(`User ${decodedIdToken.uid} cannot suspend themselves`);
+            throw new HTTPError('You cannot suspend yourself', 400);
+        }
+
+        // Disable the user and revoke their tokens
+        await getAccount(repositories, uid);
+        await repositories.accounts.setDisabled(uid, true);
+        await repositories.accounts.revokeTokens(uid);
+        logInfo(`User ${uid} suspended by ${decodedIdToken.uid}`);
+
+        return {message: 'User suspended successfully'};
+    }
+);
+
+// Function to lift the suspension of a user
+export const unsuspend_user = defineEndpoint(
+    {
+        name: 'unsuspend_user',
+        summary: 'Lift the suspension of a user',
+        auth: ['admin'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: userBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function unsuspend_user called`);
+
+        // Validate input data
+        const {uid} = validateRequestBody(userBodySchema, req.body);
+
+        // Enable the user
+        await getAccount(repositories, uid);
+        await repositories.accounts.setDisabled(uid, false);
+        logInfo(`User ${uid} unsuspended by ${decodedIdToken.uid}`);
+
+        return {message: 'User unsuspended successfully'};
+    }
+);
+
+// Function to deactivate any product, hiding the listing
+export const deactivate_product = defineEndpoint(
+    {
+        name: 'deactivate_product',
+        summary: 'Deactivate any product, hiding the listing',
+        auth: ['moderator'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: productBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function deactivate_product called`);
+
+        // Validate input data
+        const {product_id} = validateRequestBody(productBodySchema, req.body);
+
+        // Get the product data
+        await getProductDataById(repositories, product_id);
+
+        await repositories.products.update(product_id, {active: false});
+        logInfo(`Product ${product_id} deactivated by ${decodedIdToken.uid}`);
+
+        return {message: 'Product deactivated successfully'};
+    }
+);
+
+
+// --- REVIEWS
+
+// Sort orders of the review listings
+const REVIEW_SORT_ORDERS: Record<string, SortOrderData> = {
+    created_at_desc: {field: 'created_at', direction: 'desc'},
+    created_at_asc: {field: 'created_at', direction: 'asc'},
+    rating_desc: {field: 'rating', direction: 'desc'},
+    rating_asc: {field: 'rating', direction: 'asc'},
+}
+
+// Storage image path field, which must be under the 'images/' path
+function imagePathField() {
+    const parseString = nonEmptyStringField().parse;
+    return new FieldSchema<string>({type: 'string', pattern: '^images/'}, (fieldValue, fieldName, errors) => {
+        const value = parseString(fieldValue, fieldName, errors);
+        if (typeof fieldValue === 'string' && (!value.startsWith('images/') || value.includes('..'))) {
+            pushValidationError(errors, fieldName, 'invalid_value', `${fieldName} must be a path under images/`);
+        }
+        return value;
+    });
+}
+
+// Create review request body schema
+const createReviewBodySchema = {
+    ...productBodySchema,
+    rating: numberField({min: 1, max: 5, integer: true}),
+    text: nonEmptyStringField(),
+    images: arrayField(imagePathField()).default([]),
+}
+
+// Update review request body schema
+const updateReviewBodySchema = {
+    ...productBodySchema,
+    rating: createReviewBodySchema.rating.optional(),
+    text: createReviewBodySchema.text.optional(),
+    images: arrayField(imagePathField()).optional(),
+}
+
+// Delete review request body schema, moderators can give the owner of the review
+const deleteReviewBodySchema = {
+    ...productBodySchema,
+    owner: nonEmptyStringField().optional(),
+}
+
+// Review listing request body schema
+const reviewListingBodySchema = {
+    ...productBodySchema,
+    ...paginationFields(REVIEW_SORT_ORDERS, 'created_at_desc'),
+}
+
+// Get the review ID of a product by a user, there's one review per product per user
+function getReviewId(productId: string, uid: string) {
+    return `${productId}_${uid}`;
+}
+
+// Get an anonymous owner for a review of a deleted user, unique so the moderators can still delete the review
+function getAnonymousOwner() {
+    return `${DELETED_USER_OWNER}_${randomBytes(10).toString('hex')}`;
+}
+
+// Get the denormalized rating fields of a product after a rating change
+function getProductRatingUpdate(productData: ProductData, ratingSumDelta: number, ratingCountDelta: number) {
+    const ratingSum = (productData.rating_sum ?? 0) + ratingSumDelta;
+    const ratingCount = (productData.rating_count ?? 0) + ratingCountDelta;
+    return {
+        rating_sum: ratingSum,
+        rating_count: ratingCount,
+        rating_average: ratingCount > 0 ? ratingSum / ratingCount : 0,
+    };
+}
+
+// Check if the user has a completed order containing the product
+async function checkProductPurchased(repositories: Repositories, productId: string, uid: string) {
+    if (!await repositories.orders.hasCompletedWithProduct(uid, productId)) {
+        logWarning(`User ${uid} has not purchased product ${productId}`);
+        throw new HTTPError('You can only review products you have purchased', 403);
+    }
+}
+
+// Function to create a review of a product
+export const create_review = defineEndpoint(
+    {
+        name: 'create_review',
+        summary: 'Create a review of a product',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: createReviewBodySchema,
+        response: messageSpec(),
+        errors: [404, 409],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function create_review called`);
+
+        // Validate input data
+        const {product_id, rating, text, images} = validateRequestBody(createReviewBodySchema, req.body);
+
+        // Check if the user has purchased the product
+        await checkProductPurchased(repositories, product_id, decodedIdToken.uid);
+
+        // Create the review and update the product rating in the same transaction
+        await repositories.runTransaction(async (transaction) => {
+            const productData = await transaction.products.get(product_id);
+            const reviewData = await transaction.reviews.get(product_id, decodedIdToken.uid);
+            if (productData === null) {
+                logWarning(`Product not found with ID: ${product_id}`);
+                throw new HTTPError('Product not found', 404);
+            }
+            if (reviewData !== null) {
+                logWarning(`User ${decodedIdToken.uid} already reviewed product ${product_id}`);
+                throw new HTTPError('You have already reviewed this product', 409);
+            }
+
+            const newReview: ReviewData = {
+                product_id,
+                owner: decodedIdToken.uid,
+                rating,
+                text,
+                images,
+                created_at: new Date(),
+                updated_at: new Date(),
+            };
+            transaction.reviews.create(product_id, decodedIdToken.uid, newReview);
+            transaction.products.update(product_id, getProductRatingUpdate(productData, rating, 1));
+        });
+        logInfo(`Review created successfully for product ${product_id} by user ${decodedIdToken.uid}`);
+
+        return {message: 'Review created successfully'};
+    }
+);
+
+// Function to update my review of a product
+export const update_review = defineEndpoint(
+    {
+        name: 'update_review',
+        summary: 'Update my review of a product',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: updateReviewBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function update_review called`);
+
+        // Validate input data
+        const {product_id, ...fields} = validateRequestBody(updateReviewBodySchema, req.body);
+
+        // Build the updates object from the given fields
+        const updates: Record<string, any> = {updated_at: new Date()};
+        for (const [field, value] of Object.entries(fields)) {
+            if (value !== null) {
+                updates[field] = value;
+            }
+        }
+
+        // Update the review and the product rating in the same transaction
+        await repositories.runTransaction(async (transaction) => {
+            const productData = await transaction.products.get(product_id);
+            const reviewData = await transaction.reviews.get(product_id, decodedIdToken.uid);
+            if (reviewData === null) {
+                logWarning(`Review not found for product ${product_id} by user ${decodedIdToken.uid}`);
+                throw new HTTPError('Review not found', 404);
+            }
+
+            transaction.reviews.update(product_id, decodedIdToken.uid, updates);
+            if (productData !== null && fields.rating !== null) {
+                transaction.products.update(product_id, getProductRatingUpdate(productData, fields.rating - reviewData.rating, 0));
+            }
+        });
+        logInfo(`Review updated successfully for product ${product_id} by user ${decodedIdToken.uid}`);
+
+        return {message: 'Review updated successfully'};
+    }
+);
+
+// Function to delete a review of a product
+export const delete_review = defineEndpoint(
+    {
+        name: 'delete_review',
+        summary: 'Delete a review of a product',
+        auth: 'user',
+        rateLimit: 'write',
+        idempotent: true,
+        body: deleteReviewBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function delete_review called`);
+
+        // Validate input data, only moderators can delete the reviews of other users
+        const {product_id, owner} = validateRequestBody(deleteReviewBodySchema, req.body);
+        const reviewOwner = owner ?? decodedIdToken.uid;
+        if (reviewOwner !== decodedIdToken.uid && !hasRole(decodedIdToken, 'moderator')) {
+            logWarning(`User ${decodedIdToken.uid} is not the owner of the review of product ${product_id}`);
+            throw new HTTPError('You are not the owner of this review', 403);
+        }
+
+        // Delete the review and update the product rating in the same transaction
+        await repositories.runTransaction(async (transaction) => {
+            const productData = await transaction.products.get(product_id);
+            const reviewData = await transaction.reviews.get(product_id, reviewOwner);
+            if (reviewData === null) {
+                logWarning(`Review not found for product ${product_id} by user ${reviewOwner}`);
+                throw new HTTPError('Review not found', 404);
+            }
+
+            transaction.reviews.delete(product_id, reviewOwner);
+            if (productData !== null) {
+                transaction.products.update(product_id, getProductRatingUpdate(productData, -reviewData.rating, -1));
+            }
+        });
+        logInfo(`Review deleted successfully for product ${product_id} by user ${decodedIdToken.uid}`);
+
+        return {message: 'Review deleted successfully'};
+    }
+);
+
+// Function to list the reviews of a product
+export const list_product_reviews = defineEndpoint(
+    {
+        name: 'list_product_reviews',
+        summary: 'List the reviews of a product',
+        auth: null,
+        rateLimit: 'public',
+        body: reviewListingBodySchema,
+        response: pageSpec('reviews', refSpec('Review')),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories) => {
+        logInfo(`Function list_product_reviews called`);
+
+        // Validate input data
+        const body = validateRequestBody(reviewListingBodySchema, req.body);
+        const pagination = getPagination(body);
+
+        // Get a page of the reviews of the product
+        const page = await repositories.reviews.listByProduct(body.product_id, pagination, REVIEW_SORT_ORDERS[pagination.sort]);
+
+        // Get the reviews
+        const reviews: Record<string, ReviewData> = {};
+        page.items.forEach(review => {
+            reviews[review.id] = review.data;
+        });
+        logInfo(`Retrieved ${Object.keys(reviews).length} reviews`);
+
+        return {
+            reviews,
+            ...getPageResponse(page),
+        };
+    }
+);
+
+
+// --- COUPONS
+
+// Coupon types
+const COUPON_TYPES = ['percentage', 'fixed'] as const;
+
+// Coupon code field, which is normalized to uppercase
+function couponCodeField() {
+    const parseString = nonEmptyStringField().parse;
+    return new FieldSchema<string>({type: 'string', pattern: '^[A-Za-z0-9_-]+$'}, (fieldValue, fieldName, errors) => {
+        const value = parseString(fieldValue, fieldName, errors).toUpperCase();
+        if (typeof fieldValue === 'string' && !/^[A-Z0-9_-]+$/.test(value)) {
+            pushValidationError(errors, fieldName, 'invalid_value', `${fieldName} must only contain letters, numbers, dashes and underscores`);
+        }
+        return value;
+    });
+}
+
+// Coupon value fields by coupon type, percentages go from 1 to 100
+const couponValueFields: Record<CouponData['type'], FieldSchema<number>> = {
+    percentage: numberField({min: 1, max: 100}),
+    fixed: positiveNonZeroNumberField(),
+}
+
+// Create coupon request body schema
+const createCouponBodySchema = {
+    code: couponCodeField(),
+    type: enumField(COUPON_TYPES),
+    value: positiveNonZeroNumberField(),
+    products: arrayField(nonEmptyStringField()).default([]),
+    sellers: arrayField(nonEmptyStringField()).optional(),
+    brands: arrayField(nonEmptyStringField()).default([]),
+    tags: arrayField(nonEmptyStringField()).default([]),
+    min_cart_value: positiveNumberField().default(0),
+    max_uses: positiveNonZeroNumberField({integer: true}).optional(),
+    max_uses_per_user: positiveNonZeroNumberField({integer: true}).optional(),
+    starts_at: dateField().optional(),
+    ends_at: dateField().optional(),
+    active: booleanField().default(true),
+}
+
+// Coupon request body schema
+const couponBodySchema = {
+    code: couponCodeField(),
+}
+
+// Round an amount of money to cents
+function roundCurrency(amount: number) {
+    return Math.round(amount * 100) / 100;
+}
+
+// Check if a product is in the scope of a coupon, the coupons created before product scopes have no products
+function isProductInCouponScope(coupon: CouponData, productId: string, productData: ProductData) {
+    return (!coupon.products?.length || coupon.products.includes(productId))
+        && (coupon.sellers.length === 0 || coupon.sellers.includes(productData.owner as string))
+        && (coupon.brands.length === 0 || coupon.brands.includes(productData.brand))
+        && (coupon.tags.length === 0 || coupon.tags.some(tag => productData.tags?.includes(tag)));
+}
+
+// Price every line of a cart, applying the coupon discount to the lines in its scope
+function priceCart(cartData: CartData, productsData: Record<string, ProductData | null>, coupon: CouponData | null): CartPricingData {
+    const lines: Record<string, CartLinePricingData> = {};
+    for (const [productId, {price, quantity}] of Object.entries(cartData.products ?? {})) {
+        const subtotal = roundCurrency(price * quantity);
+        lines[productId] = {unit_price: price, quantity, subtotal, discount: 0, total: subtotal};
+    }
+
+    // Get the lines in the scope of the coupon
+    const eligibleProductIds = coupon === null ? [] : Object.keys(lines).filter(productId => {
+        const productData = productsData[productId];
+        return productData && isProductInCouponScope(coupon, getCartLineProductId(productId, cartData.products[productId]), productData);
+    });
+    const eligibleSubtotal = eligibleProductIds.reduce((total, productId) => total + lines[productId].subtotal, 0);
+
+    // Spread the discount over the eligible lines, the last line takes the rounding remainder
+    if (coupon !== null && eligibleSubtotal > 0) {
+        const discount = coupon.type === 'percentage'
+            ? roundCurrency(eligibleSubtotal * Math.min(coupon.value, 100) / 100)
+            : roundCurrency(Math.min(coupon.value, eligibleSubtotal));
+
+        let remainingDiscount = discount;
+        eligibleProductIds.forEach((productId, i) => {
+            const line = lines[productId];
+            line.discount = i === eligibleProductIds.length - 1
+                ? remainingDiscount
+                : roundCurrency(discount * line.subtotal / eligibleSubtotal);
+            line.total = roundCurrency(line.subtotal - line.discount);
+            remainingDiscount = roundCurrency(remainingDiscount - line.discount);
+        });
+    }
+
+    const subtotal = roundCurrency(Object.values(lines).reduce((total, line) => total + line.subtotal, 0));
+    const discount = roundCurrency(Object.values(lines).reduce((total, line) => total + line.discount, 0));
+    return {
+        lines,
+        coupon_code: coupon !== null && discount > 0 ? coupon.code : null,
+        subtotal,
+        discount,
+        total: roundCurrency(subtotal - discount),
+    };
+}
+
+// Check if a coupon can be applied to a cart of the user
+function checkCouponApplicable(
+    coupon: CouponData | null,
+    redemptionData: CouponRedemptionData | null,
+    cartData: CartData,
+    productsData: Record<string, ProductData | null>
+): asserts coupon is CouponData {
+    if (coupon === null) {
+        logWarning(`Coupon not found`);
+        throw new HTTPError('Coupon not found', 404);
+    }
+    if (!coupon.active) {
+        logWarning(`Coupon ${coupon.code} is inactive`);
+        throw new HTTPError('Coupon is inactive', 400);
+    }
+
+    // Check the validity window
+    const now = new Date();
+    if (coupon.starts_at && toDate(coupon.starts_at) > now) {
+        logWarning(`Coupon ${coupon.code} is not valid yet`);
+        throw new HTTPError('Coupon is not valid yet', 400);
+    }
+    if (coupon.ends_at && toDate(coupon.ends_at) < now) {
+        logWarning(`Coupon ${coupon.code} has expired`);
+        throw new HTTPError('Coupon has expired', 400);
+    }
+
+    // Check the usage limits
+    if (coupon.max_uses !== null && coupon.uses >= coupon.max_uses) {
+        logWarning(`Coupon ${coupon.code} reached its usage limit`);
+        throw new HTTPError('Coupon usage limit reached', 400);
+    }
+    if (coupon.max_uses_per_user !== null && (redemptionData?.uses ?? 0) >= coupon.max_uses_per_user) {
+        logWarning(`Coupon ${coupon.code} reached its usage limit for the user`);
+        throw new HTTPError('Coupon usage limit reached for this user', 400);
+    }
+
+    // Check the cart value and the scope
+    const pricing = priceCart(cartData, productsData, coupon);
+    if (pricing.subtotal < coupon.min_cart_value) {
+        logWarning(`Cart value ${pricing.subtotal} is below the minimum of coupon ${coupon.code}`);
+        throw new HTTPError(`Cart value must be at least ${coupon.min_cart_value} to use this coupon`, 400);
+    }
+    if (pricing.discount <= 0) {
+        logWarning(`Coupon ${coupon.code} doesn't apply to any product in the cart`);
+        throw new HTTPError('Coupon does not apply to any product in the cart', 400);
+    }
+}
+
+// Get the redemption reference of a coupon by a user
+function getCouponRedemptionRef(couponRef: DocumentReference, uid: string) {
+    return couponRef.collection('redemptions').doc(uid);
+}
+
+// Get a coupon by code, if it can be applied to a cart of the user
+async function getApplicableCoupon(
+    repositories: Repositories,
+    code: string,
+    uid: string,
+    cartData: CartData,
+    productsData: Record<string, ProductData | null>
+) {
+    // Log the action
+    logInfo(`Getting coupon data for code: ${code}`);
+
+    const [coupon, redemptionData] = await Promise.all([
+        repositories.coupons.get(code),
+        repositories.coupons.getRedemption(code, uid),
+    ]);
+
+    checkCouponApplicable(coupon, redemptionData, cartData, productsData);
+    return coupon;
+}
+
+// Get the current data of the product variant of every cart line, null for the removed products and variants
+async function getCartProductsData(repositories: Repositories, cartData: CartData) {
+    const productsData: Record<string, ProductData | null> = {};
+    const lines = Object.entries(cartData.products ?? {});
+    if (lines.length === 0) {
+        return productsData;
+    }
+
+    const productIds = [...new Set(lines.map(([lineKey, line]) => getCartLineProductId(lineKey, line)))];
+    const productsById = await repositories.products.getAll(productIds);
+    for (const [lineKey, line] of lines) {
+        const productData = productsById.get(getCartLineProductId(lineKey, line));
+        productsData[lineKey] = productData !== undefined && !productData.deleted_at
+            ? findVariantProductData(productData, line.variant_id ?? null)
+            : null;
+    }
+    return productsData;
+}
+
+// Function to create a coupon, sellers can only create coupons limited to their own products
+export const create_coupon = defineEndpoint(
+    {
+        name: 'create_coupon',
+        summary: 'Create a coupon, sellers can only create coupons limited to their own products',
+        auth: ['seller'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: createCouponBodySchema,
+        response: messageSpec(),
+        errors: [409],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function create_coupon called`);
+
+        // Validate input data
+        const {sellers, starts_at, ends_at, ...fields} = validateRequestBody(createCouponBodySchema, req.body);
+        const isAdmin = hasRole(decodedIdToken, 'admin');
+        const errors: ValidationErrorData[] = [];
+        couponValueFields[fields.type].parse(fields.value, 'value', errors);
+        if (starts_at !== null && ends_at !== null && starts_at > ends_at) {
+            pushValidationError(errors, 'ends_at', 'invalid_value', 'ends_at must be after starts_at');
+        }
+        if (!isAdmin && fields.products.length === 0) {
+            pushValidationError(errors, 'products', 'required', 'products is required for sellers');
+        }
+        checkValidationErrors(errors);
+        if (sellers !== null && !isAdmin) {
+            logWarning(`User ${decodedIdToken.uid} cannot choose the sellers of a coupon`);
+            throw new HTTPError('Only admins can choose the sellers of a coupon', 403);
+        }
+
+        // Sellers can only limit their coupons to their own products
+        if (!isAdmin) {
+            const productsData = await repositories.products.getAll(fields.products);
+            const foreignProductIds = fields.products.filter(productId => productsData.get(productId)?.owner !== decodedIdToken.uid);
+            if (foreignProductIds.length > 0) {
+                logWarning(`User ${decodedIdToken.uid} cannot create a coupon for products ${foreignProductIds.join(', ')}`);
+                throw new HTTPError('Sellers can only create coupons for their own products', 403);
+            }
+        }
+
+        // Create a new coupon object
+        const newCoupon: CouponData = {
+            ...fields,
+            owner: decodedIdToken.uid,
+            products: [...new Set(fields.products)],
+            sellers: sellers ?? (isAdmin ? [] : [decodedIdToken.uid]),
+            uses: 0,
+            starts_at,
+            ends_at,
+            created_at: new Date(),
+        };
+
+        // Save the coupon, the code must be unique
+        if (!await repositories.coupons.create(newCoupon)) {
+            logWarning(`Coupon ${newCoupon.code} already exists`);
+            throw new HTTPError('Coupon code already exists', 409);
+        }
+        logInfo(`Coupon ${newCoupon.code} created successfully by user ${decodedIdToken.uid}`);
+
+        return {message: 'Coupon created successfully'};
+    }
+);
+
+// Function to apply a coupon to the cart
+export const apply_coupon_to_cart = defineEndpoint(
+    {
+        name: 'apply_coupon_to_cart',
+        summary: 'Apply a coupon to the cart',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: couponBodySchema,
+        response: messageSpec({pricing: refSpec('CartPricing')}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function apply_coupon_to_cart called`);
+
+        // Validate input data
+        const {code} = validateRequestBody(couponBodySchema, req.body);
+
+        // Get the current pending cart
+        const cart = await getCurrentPendingCart(repositories, decodedIdToken);
+        if (cart === null) {
+            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
+            throw new HTTPError('No pending cart found for this user', 404);
+        }
+
+        // Get the cart document
+        const cartData = cart.data;
+
+        // Check if the coupon can be applied to the cart
+        const productsData = await getCartProductsData(repositories, cartData);
+        const coupon = await getApplicableCoupon(repositories, code, decodedIdToken.uid, cartData, productsData);
+
+        await repositories.carts.update(cart.id, {coupon_code: coupon.code});
+        logInfo(`Coupon ${coupon.code} applied to cart of user ${decodedIdToken.uid}`);
+
+        return {
+            message: 'Coupon applied successfully',
+            pricing: priceCart(cartData, productsData, coupon),
+        };
+    }
+);
+
+// Function to remove the coupon from the cart
+export const remove_coupon_from_cart = defineEndpoint(
+    {
+        name: 'remove_coupon_from_cart',
+        summary: 'Remove the coupon from the cart',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: emptyBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function remove_coupon_from_cart called`);
+
+        // Validate input data
+        validateRequestBody(emptyBodySchema, req.body);
+
+        // Get the current pending cart
+        const cart = await getCurrentPendingCart(repositories, decodedIdToken);
+        if (cart === null) {
+            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
+            throw new HTTPError('No pending cart found for this user', 404);
+        }
+
+        await repositories.carts.update(cart.id, {coupon_code: null});
+        logInfo(`Coupon removed from cart of user ${decodedIdToken.uid}`);
+
+        return {message: 'Coupon removed successfully'};
+    }
+);
+
+// Release the expired stock reservations, the cart lines are kept
+export async function releaseExpiredReservations(repositories: Repositories) {
+    // Get the expired stock reservations
+    const reservations = await repositories.reservations.findExpired(MAX_RELEASED_RESERVATIONS_PER_SWEEP);
+
+    // Release every reservation on its own, so a failure doesn't block the others
+    for (const reservation of reservations) {
+        try {
+            await repositories.runTransaction(transaction => releaseStockReservations(transaction, [reservation.id], null));
+        } catch (error) {
+            logWarning(`Reservation ${reservation.id} could not be released: ${error}`);
+        }
+    }
+    logInfo(`Released ${reservations.length} expired stock reservations`);
+}
+
+// Function to release the expired stock reservations, every 5 minutes
+export const release_expired_reservations = onSchedule('every 5 minutes', async () => {
+    logInfo(`Function release_expired_reservations called`);
+
+    await releaseExpiredReservations(firestoreRepositories);
+});
+
+// --- INVENTORY
+
+// Every stock movement reason
+const STOCK_MOVEMENT_REASONS: readonly StockMovementReason[] = [
+    'initial',
+    'manual_edit',
+    'sale',
+    'reservation',
+    'release',
+    'return',
+    'admin_correction',
+];
+
+// Stock movement reasons that can be recorded by an admin
+const STOCK_ADJUSTMENT_REASONS = ['return', 'admin_correction'] as const;
+
+// Sort orders of the stock movement listings
+const STOCK_MOVEMENT_SORT_ORDERS: Record<string, SortOrderData> = {
+    created_at_desc: {field: 'created_at', direction: 'desc'},
+    created_at_asc: {field: 'created_at', direction: 'asc'},
+}
+
+// Stock movement listing request body schema
+const stockMovementListingBodySchema = {
+    product_id: nonEmptyStringField(),
+    reason: enumField(STOCK_MOVEMENT_REASONS).optional(),
+    ...paginationFields(STOCK_MOVEMENT_SORT_ORDERS, 'created_at_desc'),
+}
+
+// Stock adjustment request body schema
+const stockAdjustmentBodySchema = {
+    product_id: nonEmptyStringField(),
+    variant_id: nonEmptyStringField().optional(),
+    delta: numberField({integer: true}),
+    reason: enumField(STOCK_ADJUSTMENT_REASONS),
+    order_id: nonEmptyStringField().optional(),
+    note: stringField().optional(),
+}
+
+// Stock recomputation request body schema
+const stockRecomputationBodySchema = {
+    product_id: nonEmptyStringField(),
+    apply: booleanField().default(false),
+}
+
+// Get the inventory ledger reference of a product
+function getStockMovementsRef(productRef: DocumentReference) {
+    return productRef.collection('stock_movements');
+}
+
+// Append a stock movement to the product ledger in a transaction, without changing the product stock
+function recordStockMovement(
+    transaction: TransactionRepositories,
+    productId: string,
+    movement: StockMovementInputData,
+    stockAfter: number,
+    reservedAfter: number
+) {
+    const newMovement: StockMovementData = {
+        product_id: productId,
+        variant_id: movement.variant_id ?? null,
+        delta: movement.delta ?? 0,
+        reserved_delta: movement.reserved_delta ?? 0,
+        stock_after: stockAfter,
+        reserved_after: reservedAfter,
+        reason: movement.reason,
+        actor: movement.actor,
+        order_id: movement.order_id ?? null,
+        cart_id: movement.cart_id ?? null,
+        note: movement.note ?? null,
+        created_at: new Date(),
+    };
+    transaction.stockMovements.create(newMovement);
+}
+
+// Apply a stock movement to a product in a transaction, appending it to the product ledger. The product totals
+// are kept as the sum of its variants. The product data must be read in the transaction, the updated product data
+// is returned for the next movements of the transaction
+function applyStockMovement(
+    transaction: TransactionRepositories,
+    productId: string,
+    productData: ProductData,
+    movement: StockMovementInputData
+): ProductData {
+    const delta = movement.delta ?? 0;
+    const reservedDelta = movement.reserved_delta ?? 0;
+
+    const updates: Partial<ProductData> = {
+        stock: productData.stock + delta,
+        reserved: (productData.reserved ?? 0) + reservedDelta,
+    };
+    let stockAfter = updates.stock as number;
+    let reservedAfter = updates.reserved as number;
+
+    // Update the variant, unless it was removed
+    const variantData = movement.variant_id ? productData.variants?.[movement.variant_id] : undefined;
+    if (variantData) {
+        stockAfter = variantData.stock + delta;
+        reservedAfter = (variantData.reserved ?? 0) + reservedDelta;
+        updates.variants = {
+            ...productData.variants,
+            [movement.variant_id as string]: {...variantData, stock: stockAfter, reserved: reservedAfter},
+        };
+    }
+
+    transaction.products.update(productId, updates);
+    recordStockMovement(transaction, productId, movement, stockAfter, reservedAfter);
+    return {...productData, ...updates};
+}
+
+// Function to list the stock movements of a product
+export const list_product_stock_movements = defineEndpoint(
+    {
+        name: 'list_product_stock_movements',
+        summary: 'List the stock movements of a product',
+        auth: ['seller'],
+        rateLimit: 'read',
+        body: stockMovementListingBodySchema,
+        response: pageSpec('movements', refSpec('StockMovement')),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function list_product_stock_movements called`);
+
+        // Validate input data
+        const body = validateRequestBody(stockMovementListingBodySchema, req.body);
+        const pagination = getPagination(body);
+
+        // Get the product data, admins can list the ledger of the products they don't own
+        const productData = await getProductDataById(repositories, body.product_id);
+        const ownerData = productData.owner as UserData;
+        if (ownerData.uid !== decodedIdToken.uid && !hasRole(decodedIdToken, 'admin')) {
+            logWarning(`User ${decodedIdToken.uid} is not the owner of product ${body.product_id}`);
+            throw new HTTPError('You are not the owner of this product', 403);
+        }
+
+        // Get a page of the stock movements of the product
+        const page = await repositories.stockMovements.listByProduct(
+            body.product_id,
+            body.reason,
+            pagination,
+            STOCK_MOVEMENT_SORT_ORDERS[pagination.sort]
+        );
+
+        // Get the stock movements
+        const movements: Record<string, StockMovementData> = {};
+        page.items.forEach(movement => {
+            movements[movement.id] = movement.data;
+        });
+        logInfo(`Retrieved ${Object.keys(movements).length} stock movements`);
+
+        return {
+            movements,
+            ...getPageResponse(page),
+        };
+    }
+);
+
+// Function to adjust the stock of a product, recording the reason in its ledger
+export const adjust_product_stock = defineEndpoint(
+    {
+        name: 'adjust_product_stock',
+        summary: 'Adjust the stock of a product, recording the reason in its ledger',
+        auth: ['admin'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: stockAdjustmentBodySchema,
+        response: messageSpec({stock: {type: 'integer'}}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function adjust_product_stock called`);
+
+        // Validate input data
+        const {product_id, variant_id, delta, reason, order_id, note} = validateRequestBody(stockAdjustmentBodySchema, req.body);
+        if (delta === 0) {
+            logWarning(`Stock adjustment of product ${product_id} has no delta`);
+            throw new HTTPError('Delta must not be zero', 400);
+        }
+
+        const stock = await repositories.runTransaction(async (transaction) => {
+            const productData = await transaction.products.get(product_id);
+            if (productData === null) {
+                logWarning(`Product not found with ID: ${product_id}`);
+                throw new HTTPError('Product not found', 404);
+            }
+
+            // Check the stock of the variant doesn't become negative
+            const variantProductData = getVariantProductData(productData, variant_id);
+            if (variantProductData.stock + delta < 0) {
+                logWarning(`Stock adjustment of product ${product_id} would leave a negative stock`);
+                throw new HTTPError('Stock cannot be negative', 400);
+            }
+
+            applyStockMovement(transaction, product_id, productData, {
+                variant_id,
+                delta,
+                reason,
+                actor: decodedIdToken.uid,
+                order_id: order_id ?? undefined,
+                note,
+            });
+            return variantProductData.stock + delta;
+        });
+        logInfo(`Stock of product ${product_id} adjusted by ${delta} to ${stock}`);
+
+        return {message: 'Product stock adjusted successfully', stock};
+    }
+);
+
+// Function to recompute the stock of a product from its ledger. Products created before the ledger existed get
+// their current stock recorded as their initial movement
+export const recompute_product_stock = defineEndpoint(
+    {
+        name: 'recompute_product_stock',
+        summary: 'Recompute the stock of a product from its ledger',
+        auth: ['admin'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: stockRecomputationBodySchema,
+        response: refSpec('StockRecomputation'),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function recompute_product_stock called`);
+
+        // Validate input data
+        const {product_id, apply} = validateRequestBody(stockRecomputationBodySchema, req.body);
+
+        const result = await repositories.runTransaction(async (transaction) => {
+            const productData = await transaction.products.get(product_id);
+            if (productData === null) {
+                logWarning(`Product not found with ID: ${product_id}`);
+                throw new HTTPError('Product not found', 404);
+            }
+
+            // Sum every movement of the ledger, the totals of every variant apart
+            const movementsData = await transaction.stockMovements.findByProduct(product_id);
+            const ledgerTotals = {stock: 0, reserved: 0};
+            const ledgerVariantTotals: Record<string, { stock: number, reserved: number }> = {};
+            movementsData.forEach(movementData => {
+                ledgerTotals.stock += movementData.delta;
+                ledgerTotals.reserved += movementData.reserved_delta;
+                if (movementData.variant_id) {
+                    const variantTotals = ledgerVariantTotals[movementData.variant_id] ??= {stock: 0, reserved: 0};
+                    variantTotals.stock += movementData.delta;
+                    variantTotals.reserved += movementData.reserved_delta;
+                }
+            });
+
+            // Compare the ledger totals with the product and every variant
+            const variants: Record<string, { stock: number, reserved: number, ledger_stock: number, ledger_reserved: number }> = {};
+            for (const [variantId, variantData] of Object.entries(productData.variants ?? {})) {
+                variants[variantId] = {
+                    stock: variantData.stock,
+                    reserved: variantData.reserved ?? 0,
+                    ledger_stock: ledgerVariantTotals[variantId]?.stock ?? 0,
+                    ledger_reserved: ledgerVariantTotals[variantId]?.reserved ?? 0,
+                };
+            }
+            const wasConsistent = ledgerTotals.stock === productData.stock
+                && ledgerTotals.reserved === (productData.reserved ?? 0)
+                && Object.values(variants).every(variant => variant.ledger_stock === variant.stock
+                    && variant.ledger_reserved === variant.reserved);
+            const applied = apply && (movementsData.length === 0 || !wasConsistent);
+
+            if (apply && movementsData.length === 0) {
+                // Record the current stock as the initial movement of the product, or of every variant
+                const note = 'Recorded from the stock of a product without ledger';
+                if (hasVariants(productData)) {
+                    for (const [variantId, variant] of Object.entries(variants)) {
+                        recordStockMovement(transaction, product_id, {
+                            variant_id: variantId,
+                            delta: variant.stock,
+                            reserved_delta: variant.reserved,
+                            reason: 'initial',
+                            actor: decodedIdToken.uid,
+                            note,
+                        }, variant.stock, variant.reserved);
+                        Object.assign(variant, {ledger_stock: variant.stock, ledger_reserved: variant.reserved});
+                    }
+                } else {
+                    recordStockMovement(transaction, product_id, {
+                        delta: productData.stock,
+                        reserved_delta: productData.reserved ?? 0,
+                        reason: 'initial',
+                        actor: decodedIdToken.uid,
+                        note,
+                    }, productData.stock, productData.reserved ?? 0);
+                }
+                ledgerTotals.stock = productData.stock;
+                ledgerTotals.reserved = productData.reserved ?? 0;
+            } else if (apply && !wasConsistent) {
+                // Set the stock of the product and of every variant to the ledger totals
+                const updates: Partial<ProductData> = {stock: ledgerTotals.stock, reserved: ledgerTotals.reserved};
+                if (hasVariants(productData)) {
+                    updates.variants = Object.fromEntries(Object.entries(productData.variants ?? {}).map(([variantId, variantData]) => [
+                        variantId,
+                        {...variantData, stock: variants[variantId].ledger_stock, reserved: variants[variantId].ledger_reserved},
+                    ]));
+                }
+                transaction.products.update(product_id, updates);
+                Object.values(variants).forEach(variant => Object.assign(variant, {
+                    stock: variant.ledger_stock,
+                    reserved: variant.ledger_reserved,
+                }));
+            }
+
+            // Return the stock once applied, the product and the ledger agree then
+            const stock = applied ? ledgerTotals.stock : productData.stock;
+            const reserved = applied ? ledgerTotals.reserved : productData.reserved ?? 0;
+            return {
+                stock,
+                reserved,
+                ledger_stock: ledgerTotals.stock,
+                ledger_reserved: ledgerTotals.reserved,
+                variants,
+                consistent: applied || wasConsistent,
+                was_consistent: wasConsistent,
+                applied,
+                stock_delta: stock - productData.stock,
+                reserved_delta: reserved - (productData.reserved ?? 0),
+            };
+        });
+        logInfo(`Stock of product ${product_id} recomputed, consistent: ${result.was_consistent}, applied: ${result.applied}`);
+
+        return result;
+    }
+);
+
+// --- CATEGORIES
+
+// Create category request body schema
+const createCategoryBodySchema = {
+    name: nonEmptyStringField(),
+    parent_id: nonEmptyStringField().optional(),
+}
+
+// Category request body schema
+const categoryBodySchema = {
+    category_id: nonEmptyStringField(),
+}
+
+// Update category request body schema, a category is moved under another parent or to the root
+const updateCategoryBodySchema = {
+    ...categoryBodySchema,
+    name: nonEmptyStringField().optional(),
+    parent_id: nonEmptyStringField().optional(),
+    move_to_root: booleanField().default(false),
+}
+
+// Get the category data by ID
+async function getCategoryDataById(repositories: Repositories, categoryId: string) {
+    // Log the action
+    logInfo(`Getting category data for ID: ${categoryId}`);
 
-        res.status(200).send({message: 'User created successfully'});
-    })
-);
+    const categoryData = await repositories.categories.get(categoryId);
+    if (categoryData === null) {
+        logWarning(`Category not found with ID: ${categoryId}`);
+        throw new HTTPError('Category not found', 404);
+    }
+    return categoryData;
+}
 
-// Function to get a user by ID
-export const get_user_by_id = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo('Function get_user_by_id called');
+// Get the IDs of a category and its ancestors, from the root, assigned to its products
+async function getCategoryPathIds(repositories: Repositories, categoryId: string) {
+    const categoryData = await getCategoryDataById(repositories, categoryId);
+    return [...categoryData.ancestor_ids, categoryId];
+}
+
+// Check there's no sibling category with the same name
+async function checkCategoryNameAvailable(repositories: Repositories, parentId: string | null, name: string, categoryId?: string) {
+    const siblings = await repositories.categories.findByName(parentId, name);
+    if (siblings.some(sibling => sibling.id !== categoryId)) {
+        logWarning(`Category "${name}" already exists under parent ${parentId}`);
+        throw new HTTPError('A category with this name already exists under the same parent', 409);
+    }
+}
+
+// Function to list every category, the tree is built from their parents
+export const list_categories = defineEndpoint(
+    {
+        name: 'list_categories',
+        summary: 'List every category, the tree is built from their parents',
+        auth: null,
+        rateLimit: 'public',
+        body: emptyBodySchema,
+        response: objectSpec({categories: mapSpec(refSpec('Category'))}),
+    },
+    async (req: Request, res: Response, repositories: Repositories) => {
+        logInfo(`Function list_categories called`);
+
+        // Validate input data
+        validateRequestBody(emptyBodySchema, req.body);
+
+        // Get the categories
+        const categories: Record<string, CategoryData> = {};
+        (await repositories.categories.list()).forEach(category => {
+            categories[category.id] = category.data;
+        });
+        logInfo(`Retrieved ${Object.keys(categories).length} categories`);
+
+        return {categories};
+    }
+);
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+// Function to create a category
+export const create_category = defineEndpoint(
+    {
+        name: 'create_category',
+        summary: 'Create a category',
+        auth: ['admin'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: createCategoryBodySchema,
+        response: messageSpec({category_id: {type: 'string'}}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories) => {
+        logInfo(`Function create_category called`);
 
-        // Retrieve the user document
-        const userDoc = await firestore.collection('users').doc(decodedIdToken.uid).get();
-        if (!userDoc.exists) {
-            logWarning(`User not found with ID: ${decodedIdToken.uid}`);
-            throw new HTTPError('User not found', 404);
+        // Validate input data
+        const {name, parent_id} = validateRequestBody(createCategoryBodySchema, req.body);
+
+        // Get the ancestors of the category
+        let ancestorIds: string[] = [];
+        if (parent_id !== null) {
+            ancestorIds = await getCategoryPathIds(repositories, parent_id);
+            if (ancestorIds.length >= MAX_CATEGORY_DEPTH) {
+                logWarning(`Category ${parent_id} is at the maximum depth`);
+                throw new HTTPError(`Categories can't be nested more than ${MAX_CATEGORY_DEPTH} levels`, 400);
+            }
         }
 
-        // Return the user data
-        const userData = userDoc.data() as UserData;
-        logInfo(`Retrieved user data: ${JSON.stringify(userData)}`);
+        // Check the name is available under the parent
+        await checkCategoryNameAvailable(repositories, parent_id, name);
 
-        res.status(200).send({user: userData});
-    })
+        const newCategory: CategoryData = {
+            name,
+            parent_id,
+            ancestor_ids: ancestorIds,
+            created_at: new Date(),
+        };
+        const categoryId = await repositories.categories.create(newCategory);
+        logInfo(`Category created successfully with ID: ${categoryId}`);
+
+        return {message: 'Category created successfully', category_id: categoryId};
+    }
 );
 
-// Function to add a product to the cart
-export const add_product_to_cart = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function add_product_to_cart called`);
+// Function to update a category, moving it also moves its descendants and updates the products assigned to them
+export const update_category = defineEndpoint(
+    {
+        name: 'update_category',
+        summary: 'Update a category, moving it also moves its descendants and updates the products assigned to them',
+        auth: ['admin'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: updateCategoryBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories) => {
+        logInfo(`Function update_category called`);
+
+        // Validate input data
+        const {category_id, name, parent_id, move_to_root} = validateRequestBody(updateCategoryBodySchema, req.body);
+        if (parent_id !== null && move_to_root) {
+            logWarning(`Invalid argument: parent_id and move_to_root given together`);
+            throw new HTTPError('Invalid request body', 400, [
+                {field: 'move_to_root', code: 'invalid_value', message: 'move_to_root cannot be combined with parent_id'},
+            ]);
+        }
+
+        // Get the category data
+        const categoryData = await getCategoryDataById(repositories, category_id);
+        const moved = move_to_root ? categoryData.parent_id !== null : parent_id !== null && parent_id !== categoryData.parent_id;
+        const newParentId = moved ? parent_id : categoryData.parent_id;
+
+        // Check the name is available under the new parent
+        if (name !== null || moved) {
+            await checkCategoryNameAvailable(repositories, newParentId, name ?? categoryData.name, category_id);
+        }
+
+        if (!moved) {
+            if (name !== null) {
+                await repositories.categories.update(category_id, {name});
+            }
+            logInfo(`Category ${category_id} updated successfully`);
+            return {message: 'Category updated successfully'};
+        }
+
+        // Get the new ancestors, a category can't be moved under itself or its descendants
+        const ancestorIds = newParentId !== null ? await getCategoryPathIds(repositories, newParentId) : [];
+        if (ancestorIds.includes(category_id)) {
+            logWarning(`Category ${category_id} can't be moved under itself or its descendants`);
+            throw new HTTPError('A category cannot be moved under itself or its descendants', 400);
+        }
+
+        // Check the depth of the deepest descendant after the move
+        const descendants = await repositories.categories.findDescendants(category_id);
+        const subtreeDepth = Math.max(0, ...descendants.map(({data: descendantData}) =>
+            descendantData.ancestor_ids.length - descendantData.ancestor_ids.indexOf(category_id)
+        ));
+        if (ancestorIds.length + 1 + subtreeDepth > MAX_CATEGORY_DEPTH) {
+            logWarning(`Category ${category_id} would exceed the maximum depth`);
+            throw new HTTPError(`Categories can't be nested more than ${MAX_CATEGORY_DEPTH} levels`, 400);
+        }
+
+        // Replace the ancestors of the category, its descendants and the products assigned to them
+        const replaceAncestors = (ids: string[]) => [...ancestorIds, ...ids.slice(ids.indexOf(category_id))];
+        const products = await repositories.products.findByCategory(category_id);
+
+        const categoryUpdates = new Map<string, Partial<CategoryData>>([[category_id, {
+            ...(name !== null ? {name} : {}),
+            parent_id: newParentId,
+            ancestor_ids: ancestorIds,
+        }]]);
+        descendants.forEach(descendant => {
+            categoryUpdates.set(descendant.id, {ancestor_ids: replaceAncestors(descendant.data.ancestor_ids)});
+        });
+        await repositories.categories.updateAll(categoryUpdates);
+        await repositories.products.updateAll(new Map(products.map(product => [
+            product.id,
+            {category_ids: replaceAncestors(product.data.category_ids ?? [])},
+        ])));
+        logInfo(`Category ${category_id} moved with ${descendants.length} descendants and ${products.length} products`);
+
+        return {message: 'Category updated successfully'};
+    }
+);
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+// Function to delete a category, which can't have subcategories nor products
+export const delete_category = defineEndpoint(
+    {
+        name: 'delete_category',
+        summary: 'Delete a category, which can\'t have subcategories nor products',
+        auth: ['admin'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: categoryBodySchema,
+        response: messageSpec(),
+        errors: [404, 409],
+    },
+    async (req: Request, res: Response, repositories: Repositories) => {
+        logInfo(`Function delete_category called`);
 
         // Validate input data
-        const {product_id = null, quantity = null} = req.body
-        validateNonEmptyStringField(product_id, 'Product ID');
-        validatePositiveNonZeroNumberField(quantity, 'Quantity');
-        logInfo(`Adding product ${product_id} with quantity ${quantity} to cart for user ${decodedIdToken.uid}`);
+        const {category_id} = validateRequestBody(categoryBodySchema, req.body);
 
-        // Get the current pending cart
-        const cartSnapshot = await getCurrentPendingCartRef(firestore, decodedIdToken);
+        // Get the category data
+        await getCategoryDataById(repositories, category_id);
 
-        // Get the product data
-        const [,productData] = await getProductDataById(firestore, product_id);
+        // Check the category is empty
+        if ((await repositories.categories.findChildren(category_id, 1)).length > 0) {
+            logWarning(`Category ${category_id} has subcategories`);
+            throw new HTTPError('Category has subcategories', 409);
+        }
+        if ((await repositories.products.findByCategory(category_id, 1)).length > 0) {
+            logWarning(`Category ${category_id} has products`);
+            throw new HTTPError('Category has products', 409);
+        }
 
-        // Check if the product is active
-        await checkProductActive(productData);
+        await repositories.categories.delete(category_id);
+        logInfo(`Category ${category_id} deleted successfully`);
 
-        // Check if the product has stock
-        await checkProductStock(productData, quantity);
+        return {message: 'Category deleted successfully'};
+    }
+);
 
-        // Check if the current user is the owner of the product
-        const ownerData = productData.owner as UserData;
-        if (ownerData.uid === decodedIdToken.uid) {
-            logWarning(`User ${decodedIdToken.uid} cannot add their own product to the cart`);
-            throw new HTTPError('You cannot add your own product to the cart', 400);
+// --- PRODUCT IMAGES
+
+// Product image upload request body schema
+const productImageUploadBodySchema = {
+    ...productBodySchema,
+    content_type: enumField(PRODUCT_IMAGE_CONTENT_TYPES),
+    size: positiveNonZeroNumberField({integer: true, max: MAX_PRODUCT_IMAGE_SIZE}),
+}
+
+// Product image request body schema
+const productImageBodySchema = {
+    ...productBodySchema,
+    image_id: nonEmptyStringField(),
+}
+
+// Product images order request body schema
+const productImagesOrderBodySchema = {
+    ...productBodySchema,
+    image_ids: arrayField(nonEmptyStringField()),
+}
+
+// Get the default Storage bucket
+function getBucket() {
+    return getStorage(app).bucket();
+}
+
+// Get the origin of the Storage emulator, null if it isn't running
+function getStorageEmulatorOrigin() {
+    const host = process.env.STORAGE_EMULATOR_HOST ?? process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+    if (!host) {
+        return null;
+    }
+    return host.startsWith('http') ? host : `http://${host}`;
+}
+
+// Get the download URL of a Storage object, served according to the Storage rules
+function getStorageObjectUrl(path: string) {
+    const origin = getStorageEmulatorOrigin() ?? 'https://firebasestorage.googleapis.com';
+    return `${origin}/v0/b/${getBucket().name}/o/${encodeURIComponent(path)}?alt=media`;
+}
+
+// Delete every Storage object under a path prefix
+async function deleteStorageObjects(prefix: string) {
+    // Log the action
+    logInfo(`Deleting Storage objects under: ${prefix}`);
+
+    await getBucket().deleteFiles({prefix, force: true});
+}
+
+// Get a product the user can manage the images of, moderators can manage the listings they don't own
+async function getOwnedProductData(repositories: Repositories, productId: string, decodedIdToken: DecodedIdToken) {
+    const productData = await getProductDataById(repositories, productId);
+    const ownerData = productData.owner as UserData;
+    if (ownerData.uid !== decodedIdToken.uid && !hasRole(decodedIdToken, 'moderator')) {
+        logWarning(`User ${decodedIdToken.uid} is not the owner of product ${productId}`);
+        throw new HTTPError('You are not the owner of this product', 403);
+    }
+    return productData;
+}
+
+// Get the gallery of a product in a transaction
+async function getProductImages(transaction: TransactionRepositories, productId: string) {
+    const productData = await transaction.products.get(productId);
+    if (productData === null) {
+        logWarning(`Product not found with ID: ${productId}`);
+        throw new HTTPError('Product not found', 404);
+    }
+    return productData.images ?? [];
+}
+
+// Get the product updates of a gallery, the primary image is also the product image
+function getProductImagesUpdate(images: ProductImageData[]) {
+    return {images, image_url: images[0]?.url ?? ''};
+}
+
+// Function to request an upload target for a product image, which is added to the gallery once confirmed
+export const request_product_image_upload = defineEndpoint(
+    {
+        name: 'request_product_image_upload',
+        summary: 'Request an upload target for a product image, which is added to the gallery once confirmed',
+        auth: ['seller'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: productImageUploadBodySchema,
+        response: objectSpec({
+            image_id: {type: 'string'},
+            upload_url: {type: 'string'},
+            method: {type: 'string', enum: ['PUT', 'POST']},
+            headers: mapSpec({type: 'string'}),
+            expires_at: {type: 'string', format: 'date-time'},
+        }),
+        errors: [404, 409],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function request_product_image_upload called`);
+
+        // Validate input data
+        const {product_id, content_type, size} = validateRequestBody(productImageUploadBodySchema, req.body);
+
+        // Get the product data, and check the gallery isn't full
+        const productData = await getOwnedProductData(repositories, product_id, decodedIdToken);
+        if ((productData.images ?? []).length >= MAX_PRODUCT_IMAGES) {
+            logWarning(`Product ${product_id} already has ${MAX_PRODUCT_IMAGES} images`);
+            throw new HTTPError(`A product can't have more than ${MAX_PRODUCT_IMAGES} images`, 409);
         }
 
-        if (cartSnapshot.empty) {
-            // Create a new cart
-            const newCart = {
-                owner: decodedIdToken.uid,
-                status: 'pending',
-                products: {
-                    [product_id]: {
-                        price: productData.price,
-                        quantity: quantity,
-                    },
-                },
-            };
-            await firestore.collection('carts').add(newCart);
-            logInfo(`New cart created and product "${productData.title}" added`);
+        // Record the upload, so it can be confirmed later
+        const uploadId = repositories.imageUploads.newId();
+        const path = `products/${product_id}/images/${uploadId}`;
+        const expiresAt = new Date(Date.now() + PRODUCT_IMAGE_UPLOAD_TTL_MINUTES * 60 * 1000);
+        const upload: ProductImageUploadData = {
+            owner: decodedIdToken.uid,
+            path,
+            content_type,
+            size,
+            expires_at: expiresAt,
+        };
+        await repositories.imageUploads.set(product_id, uploadId, upload);
+
+        // Issue a signed URL restricted to the content type and size, the emulator doesn't check signatures
+        const emulatorOrigin = getStorageEmulatorOrigin();
+        const bucket = getBucket();
+        let uploadUrl: string;
+        if (emulatorOrigin !== null) {
+            uploadUrl = `${emulatorOrigin}/upload/storage/v1/b/${bucket.name}/o?uploadType=media&name=${encodeURIComponent(path)}`;
         } else {
-            const cartDocument = cartSnapshot.docs[0];
-            const cartData = cartDocument.data() as CartData;
-            const existingProduct = cartData.products && cartData.products[product_id];
+            [uploadUrl] = await bucket.file(path).getSignedUrl({
+                version: 'v4',
+                action: 'write',
+                expires: expiresAt,
+                contentType: content_type,
+                extensionHeaders: {'x-goog-content-length-range': `${size},${size}`},
+            });
+        }
+        logInfo(`Upload target issued for image ${uploadId} of product ${product_id}`);
+
+        return {
+            image_id: uploadId,
+            upload_url: uploadUrl,
+            method: emulatorOrigin !== null ? 'POST' : 'PUT',
+            headers: {
+                'Content-Type': content_type,
+                ...(emulatorOrigin !== null ? {} : {'x-goog-content-length-range': `${size},${size}`}),
+            },
+            expires_at: expiresAt,
+        };
+    }
+);
 
-            const updatedProducts = {...cartData.products};
+// Function to confirm an uploaded product image, adding it to the end of the gallery
+export const confirm_product_image_upload = defineEndpoint(
+    {
+        name: 'confirm_product_image_upload',
+        summary: 'Confirm an uploaded product image, adding it to the end of the gallery',
+        auth: ['seller'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: productImageBodySchema,
+        response: messageSpec({image: refSpec('ProductImage')}),
+        errors: [404, 409],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function confirm_product_image_upload called`);
 
-            // Check if the product already exists in the cart
-            if (existingProduct) {
-                // Update the quantity of the existing product
-                updatedProducts[product_id].quantity += quantity;
-                logInfo(`Incrementing quantity of product "${productData.title}" in cart to ${updatedProducts[product_id].quantity}`);
-            } else {
-                updatedProducts[product_id] = {
-                    price: productData.price,
-                    quantity: quantity,
-                };
-                logInfo(`Adding product "${productData.title}" to existing cart`);
+        // Validate input data
+        const {product_id, image_id} = validateRequestBody(productImageBodySchema, req.body);
+
+        // Get the product data and the upload
+        await getOwnedProductData(repositories, product_id, decodedIdToken);
+        const uploadData = await repositories.imageUploads.get(product_id, image_id);
+        if (uploadData === null) {
+            logWarning(`Image upload ${image_id} not found for product ${product_id}`);
+            throw new HTTPError('Image upload not found', 404);
+        }
+
+        // Check the uploaded object matches the requested content type and size, deleting it otherwise
+        const file = getBucket().file(uploadData.path);
+        const [exists] = await file.exists();
+        if (!exists) {
+            logWarning(`Image ${image_id} of product ${product_id} wasn't uploaded`);
+            throw new HTTPError('Image has not been uploaded', 409);
+        }
+        const [metadata] = await file.getMetadata();
+        const size = Number(metadata.size);
+        if (metadata.contentType !== uploadData.content_type || size !== uploadData.size || size > MAX_PRODUCT_IMAGE_SIZE) {
+            logWarning(`Image ${image_id} of product ${product_id} doesn't match its upload: ${metadata.contentType}, ${size} bytes`);
+            await file.delete({ignoreNotFound: true});
+            await repositories.imageUploads.delete(product_id, image_id);
+            throw new HTTPError('Uploaded image does not match the requested content type and size', 400);
+        }
+
+        // Add the image to the gallery
+        const image: ProductImageData = {
+            id: image_id,
+            path: uploadData.path,
+            url: getStorageObjectUrl(uploadData.path),
+            content_type: uploadData.content_type,
+            size,
+            created_at: new Date(),
+        };
+        await repositories.runTransaction(async (transaction) => {
+            const images = await getProductImages(transaction, product_id);
+            if (images.length >= MAX_PRODUCT_IMAGES) {
+                logWarning(`Product ${product_id} already has ${MAX_PRODUCT_IMAGES} images`);
+                throw new HTTPError(`A product can't have more than ${MAX_PRODUCT_IMAGES} images`, 409);
+            }
+            transaction.products.update(product_id, getProductImagesUpdate([...images, image]));
+            transaction.imageUploads.delete(product_id, image_id);
+        });
+        logInfo(`Image ${image_id} added to product ${product_id}`);
+
+        return {message: 'Product image added successfully', image};
+    }
+);
+
+// Function to reorder the gallery of a product, every image must be given once
+export const reorder_product_images = defineEndpoint(
+    {
+        name: 'reorder_product_images',
+        summary: 'Reorder the gallery of a product, every image must be given once',
+        auth: ['seller'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: productImagesOrderBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function reorder_product_images called`);
+
+        // Validate input data
+        const {product_id, image_ids} = validateRequestBody(productImagesOrderBodySchema, req.body);
+
+        await getOwnedProductData(repositories, product_id, decodedIdToken);
+        await repositories.runTransaction(async (transaction) => {
+            const images = await getProductImages(transaction, product_id);
+
+            // Check the given IDs are the IDs of the gallery
+            const imagesById = new Map(images.map(image => [image.id, image]));
+            if (image_ids.length !== images.length || new Set(image_ids).size !== image_ids.length
+                || image_ids.some(imageId => !imagesById.has(imageId))) {
+                logWarning(`Image IDs don't match the gallery of product ${product_id}`);
+                throw new HTTPError('Invalid request body', 400, [
+                    {field: 'image_ids', code: 'invalid_value', message: 'image_ids must contain every image of the product once'},
+                ]);
             }
 
-            await cartDocument.ref.update({products: updatedProducts});
-            logInfo(`Product "${productData.title}" added to cart successfully`);
+            transaction.products.update(product_id, getProductImagesUpdate(image_ids.map(imageId => imagesById.get(imageId)!)));
+        });
+        logInfo(`Images of product ${product_id} reordered`);
+
+        return {message: 'Product images reordered successfully'};
+    }
+);
+
+// Function to set the primary image of a product, moving it to the start of the gallery
+export const set_primary_product_image = defineEndpoint(
+    {
+        name: 'set_primary_product_image',
+        summary: 'Set the primary image of a product, moving it to the start of the gallery',
+        auth: ['seller'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: productImageBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function set_primary_product_image called`);
+
+        // Validate input data
+        const {product_id, image_id} = validateRequestBody(productImageBodySchema, req.body);
+
+        await getOwnedProductData(repositories, product_id, decodedIdToken);
+        await repositories.runTransaction(async (transaction) => {
+            const images = await getProductImages(transaction, product_id);
+            const image = images.find(image => image.id === image_id);
+            if (!image) {
+                logWarning(`Image ${image_id} not found for product ${product_id}`);
+                throw new HTTPError('Image not found', 404);
+            }
+
+            transaction.products.update(product_id, getProductImagesUpdate([image, ...images.filter(image => image.id !== image_id)]));
+        });
+        logInfo(`Image ${image_id} set as primary of product ${product_id}`);
+
+        return {message: 'Primary product image set successfully'};
+    }
+);
+
+// Function to delete a product image, from the gallery and from Storage
+export const delete_product_image = defineEndpoint(
+    {
+        name: 'delete_product_image',
+        summary: 'Delete a product image, from the gallery and from Storage',
+        auth: ['seller'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: productImageBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function delete_product_image called`);
+
+        // Validate input data
+        const {product_id, image_id} = validateRequestBody(productImageBodySchema, req.body);
+
+        await getOwnedProductData(repositories, product_id, decodedIdToken);
+        const image = await repositories.runTransaction(async (transaction) => {
+            const images = await getProductImages(transaction, product_id);
+            const image = images.find(image => image.id === image_id);
+            if (!image) {
+                logWarning(`Image ${image_id} not found for product ${product_id}`);
+                throw new HTTPError('Image not found', 404);
+            }
+
+            // The next image becomes the primary one if the primary image is deleted
+            transaction.products.update(product_id, getProductImagesUpdate(images.filter(image => image.id !== image_id)));
+            return image;
+        });
+
+        await getBucket().file(image.path).delete({ignoreNotFound: true});
+        logInfo(`Image ${image_id} deleted from product ${product_id}`);
+
+        return {message: 'Product image deleted successfully'};
+    }
+);
+
+// --- ARCHIVE
+
+// Sort orders of the archived product listings
+const ARCHIVED_PRODUCT_SORT_ORDERS: Record<string, SortOrderData> = {
+    deleted_at_desc: {field: 'deleted_at', direction: 'desc'},
+    deleted_at_asc: {field: 'deleted_at', direction: 'asc'},
+}
+
+// Archived product listing request body schema, admins can list the products of any owner or of every owner
+const archivedProductListingBodySchema = {
+    owner: nonEmptyStringField().optional(),
+    ...paginationFields(ARCHIVED_PRODUCT_SORT_ORDERS, 'deleted_at_desc'),
+}
+
+// Get the date a removed product can no longer be restored
+function getProductRetentionEnd(productData: ProductData) {
+    return new Date(toDate(productData.deleted_at!).getTime() + PRODUCT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Function to list the archived products, which can be restored within the retention window
+export const list_archived_products = defineEndpoint(
+    {
+        name: 'list_archived_products',
+        summary: 'List the archived products, which can be restored within the retention window',
+        auth: ['seller'],
+        rateLimit: 'read',
+        body: archivedProductListingBodySchema,
+        response: pageSpec('products', refSpec('Product')),
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function list_archived_products called`);
+
+        // Validate input data
+        const body = validateRequestBody(archivedProductListingBodySchema, req.body);
+        const pagination = getPagination(body);
+        if (body.owner !== null && body.owner !== decodedIdToken.uid && !hasRole(decodedIdToken, 'admin')) {
+            logWarning(`User ${decodedIdToken.uid} cannot list the archived products of user ${body.owner}`);
+            throw new HTTPError('You can only list your own archived products', 403);
         }
 
-        res.status(200).send({message: 'Product added to cart successfully'});
-    })
+        // Get a page of the archived products of the owner, or of every owner for admins
+        const owner = body.owner ?? (hasRole(decodedIdToken, 'admin') ? null : decodedIdToken.uid);
+        const page = await repositories.products.listArchived(owner, pagination, ARCHIVED_PRODUCT_SORT_ORDERS[pagination.sort]);
+
+        // Get the products, with the date they can be restored until
+        const products: Record<string, ProductResponseData & { restorable_until: Date }> = {};
+        page.items.forEach(product => {
+            products[product.id] = {...getProductResponseData(product.data), restorable_until: getProductRetentionEnd(product.data)};
+        });
+        logInfo(`Retrieved ${Object.keys(products).length} archived products`);
+
+        return {
+            products,
+            ...getPageResponse(page),
+        };
+    }
 );
 
-// Function to remove a product from the cart
-export const remove_product_from_cart = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function remove_product_from_cart called`);
+// Function to restore an archived product within the retention window
+export const restore_product = defineEndpoint(
+    {
+        name: 'restore_product',
+        summary: 'Restore an archived product within the retention window',
+        auth: 'user',
+        rateLimit: 'write',
+        idempotent: true,
+        body: productBodySchema,
+        response: messageSpec(),
+        errors: [404, 409],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function restore_product called`);
+
+        // Validate input data
+        const {product_id} = validateRequestBody(productBodySchema, req.body);
+
+        // Get the product data, admins can restore the products they don't own
+        const productData = await getProductDataById(repositories, product_id, true);
+        const ownerData = productData.owner as UserData;
+        if (ownerData.uid !== decodedIdToken.uid && !hasRole(decodedIdToken, 'admin')) {
+            logWarning(`User ${decodedIdToken.uid} is not the owner of product ${product_id}`);
+            throw new HTTPError('You are not the owner of this product', 403);
+        }
+
+        // Check the product is archived and within the retention window
+        if (!productData.deleted_at) {
+            logWarning(`Product ${product_id} is not archived`);
+            throw new HTTPError('Product is not archived', 409);
+        }
+        if (getProductRetentionEnd(productData) < new Date()) {
+            logWarning(`Retention window of product ${product_id} is over`);
+            throw new HTTPError('Product can no longer be restored', 409);
+        }
+
+        await repositories.products.update(product_id, {deleted_at: null, purge_at: null});
+        logInfo(`Product ${product_id} restored successfully`);
+
+        return {message: 'Product restored successfully'};
+    }
+);
+
+// Get the updates turning a purged product into a tombstone, without its images
+function getProductTombstoneUpdate(productData: ProductData): Partial<ProductData> {
+    return {
+        images: [],
+        image_url: '',
+        ...(productData.variants !== undefined ? {
+            variants: Object.fromEntries(Object.entries(productData.variants)
+                .map(([variantId, variant]) => [variantId, {...variant, image_url: ''}])),
+        } : {}),
+        purge_at: null,
+        purged_at: new Date(),
+    };
+}
+
+// Purge the archived products past the retention window. The images of every purged product are deleted from
+// Storage. The products referenced by an order are kept as archived tombstones without images, so the order history
+// keeps its references, the others are deleted with their ledger
+export async function purgeDeletedProducts(
+    repositories: Repositories,
+    deleteObjects: (prefix: string) => Promise<void> = deleteStorageObjects
+) {
+    // Get the archived products past the retention window
+    const products = await repositories.products.findPurgeable(MAX_PURGED_PRODUCTS_PER_SWEEP);
+
+    // Purge every product on its own, so a failure doesn't block the others. The images are deleted first, so a
+    // product failing afterwards is still found by the next sweep
+    let purgedCount = 0;
+    let tombstonedCount = 0;
+    for (const product of products) {
+        try {
+            await deleteObjects(`products/${product.id}/`);
+            if (await repositories.orders.hasProduct(product.id)) {
+                logInfo(`Product ${product.id} is referenced by an order and is kept as a tombstone`);
+                await repositories.products.update(product.id, getProductTombstoneUpdate(product.data));
+                tombstonedCount++;
+                continue;
+            }
+
+            // Delete the product with its ledger
+            await repositories.products.purge(product.id);
+            purgedCount++;
+        } catch (error) {
+            logWarning(`Product ${product.id} could not be purged: ${error}`);
+        }
+    }
+    logInfo(`Purged ${purgedCount} archived products, ${tombstonedCount} kept as tombstones`);
+}
+
+// Function to purge the archived products past the retention window, every day
+export const purge_deleted_products = onSchedule('every 24 hours', async () => {
+    logInfo(`Function purge_deleted_products called`);
+
+    await purgeDeletedProducts(firestoreRepositories);
+});
+
+// --- MIGRATIONS
+
+// Migration of the documents of a collection written before a field was added
+type MigrationData = {
+    collection: string,
+    getUpdates: (data: Record<string, any>) => Record<string, any> | null, // Null if the document is up to date
+}
+
+// Migrations of the existing documents, they can be run any number of times
+const MIGRATIONS: Record<string, MigrationData> = {
+    // The listings only find the products where deleted_at is null, not the ones without the field
+    product_archive_fields: {
+        collection: 'products',
+        getUpdates: productData => 'deleted_at' in productData && 'purge_at' in productData
+            ? null
+            : {deleted_at: productData.deleted_at ?? null, purge_at: productData.purge_at ?? null},
+    },
+
+    // The search only finds the products by their search tokens
+    product_search_tokens: {
+        collection: 'products',
+        getUpdates: productData => Array.isArray(productData.search_tokens)
+            ? null
+            : {search_tokens: buildSearchTokens(productData)},
+    },
+
+    // The cart sync only finds the pending carts by their product IDs
+    cart_product_ids: {
+        collection: 'carts',
+        getUpdates: cartData => {
+            const productIds = getCartProductIds(cartData.products ?? {});
+            const upToDate = Array.isArray(cartData.product_ids)
+                && cartData.product_ids.length === productIds.length
+                && productIds.every(productId => cartData.product_ids.includes(productId));
+            return cartData.status !== 'pending' || upToDate ? null : {product_ids: productIds};
+        },
+    },
+};
+
+// Migration request body schema, the migration continues after the last document of the previous run
+const migrationBodySchema = {
+    name: enumField(Object.keys(MIGRATIONS)),
+    start_after: nonEmptyStringField().optional(),
+}
+
+// Run a migration over a page of documents, returning the ID to continue from or null once it's done
+async function runMigration(migration: MigrationData, startAfter: string | null) {
+    let documentsRef = firestore.collection(migration.collection)
+        .orderBy(FieldPath.documentId())
+        .limit(MAX_MIGRATED_DOCUMENTS_PER_RUN);
+    if (startAfter !== null) {
+        documentsRef = documentsRef.startAfter(startAfter);
+    }
+    const documentsSnapshot = await documentsRef.get();
+
+    // Update the outdated documents, failing if any update fails
+    const bulkWriter = firestore.bulkWriter();
+    const writes = [];
+    for (const documentSnapshot of documentsSnapshot.docs) {
+        const updates = migration.getUpdates(documentSnapshot.data());
+        if (updates !== null) {
+            writes.push(bulkWriter.update(documentSnapshot.ref, updates));
+        }
+    }
+    await Promise.all([...writes, bulkWriter.close()]);
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+    const lastDocument = documentsSnapshot.docs[documentsSnapshot.size - 1];
+    return {
+        updatedCount: writes.length,
+        nextStartAfter: documentsSnapshot.size === MAX_MIGRATED_DOCUMENTS_PER_RUN ? lastDocument.id : null,
+    };
+}
+
+// Function to run a migration over a page of documents, it has to be called again until there's no next document
+export const run_migration = defineEndpoint(
+    {
+        name: 'run_migration',
+        summary: 'Run a migration over a page of documents, it has to be called again until there\'s no next document',
+        auth: ['admin'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: migrationBodySchema,
+        response: messageSpec({updated_count: {type: 'integer'}, next_start_after: {type: 'string', nullable: true}}),
+    },
+    async (req: Request, res: Response) => {
+        logInfo(`Function run_migration called`);
 
         // Validate input data
-        const {product_id = null} = req.body;
-        validateNonEmptyStringField(product_id, 'Product ID');
+        const {name, start_after} = validateRequestBody(migrationBodySchema, req.body);
 
-        // Get the current pending cart
-        const cartSnapshot = await getCurrentPendingCartRef(firestore, decodedIdToken);
-        if (cartSnapshot.empty) {
-            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
-            throw new HTTPError('No pending cart found for this user', 404);
+        const {updatedCount, nextStartAfter} = await runMigration(MIGRATIONS[name], start_after);
+        logInfo(`Migration ${name} updated ${updatedCount} documents, next start after: ${nextStartAfter}`);
+
+        return {
+            message: 'Migration run successfully',
+            updated_count: updatedCount,
+            next_start_after: nextStartAfter,
+        };
+    }
+);
+
+// --- CART SYNC
+
+// Action taken on the pending cart lines for every issue caused by a product change
+const CART_SYNC_POLICY: Record<CartLineIssue, CartSyncAction> = {
+    deleted: 'remove',
+    inactive: 'flag',
+    price_changed: 'flag',
+    over_stock: 'clamp',
+}
+
+// Sync the pending carts holding a product with its change, the product data is null if it was removed
+async function syncCartsWithProduct(
+    repositories: Repositories,
+    productId: string,
+    beforeData: ProductData | null,
+    afterData: ProductData | null
+) {
+    // Log the action
+    logInfo(`Syncing pending carts with product ${productId}`);
+
+    // Get the pending carts holding the product
+    const carts = await repositories.carts.findPendingByProduct(productId);
+
+    for (const cart of carts) {
+        try {
+            await syncCartWithProduct(repositories, cart.id, productId, beforeData, afterData);
+        } catch (error) {
+            logWarning(`Cart ${cart.id} could not be synced with product ${productId}: ${error}`);
         }
+    }
+    logInfo(`Synced ${carts.length} pending carts with product ${productId}`);
+}
 
-        // Get the cart document
-        const cartDocument = cartSnapshot.docs[0];
-        const cartData = cartDocument.data() as CartData;
-        if (!cartData?.products[product_id]) {
-            logWarning(`Product ${product_id} not found in the cart`);
-            throw new HTTPError('Product not found in the cart', 404);
+// Sync the lines of a pending cart with a product change, acting only on the issues the change caused
+async function syncCartWithProduct(
+    repositories: Repositories,
+    cartId: string,
+    productId: string,
+    beforeData: ProductData | null,
+    afterData: ProductData | null
+) {
+    await repositories.runTransaction(async (transaction) => {
+        const cartData = await transaction.carts.get(cartId);
+        if (cartData === null || cartData.status !== 'pending') {
+            return;
+        }
+
+        // Get the lines of the product, with their reserved units
+        const lineKeys = Object.keys(cartData.products ?? {})
+            .filter(lineKey => getCartLineProductId(lineKey, cartData.products[lineKey]) === productId);
+        if (lineKeys.length === 0) {
+            return;
         }
+        const reservationsData = await transaction.reservations.getAll(
+            lineKeys.map(lineKey => getStockReservationId(cartId, lineKey))
+        );
 
-        // Remove the product from the cart
         const updatedProducts = {...cartData.products};
-        delete updatedProducts[product_id];
+        const notices: CartNoticeData[] = [];
+        const removedLineKeys: string[] = [];
+        lineKeys.forEach(lineKey => {
+            const line = cartData.products[lineKey];
+            const variantId = line.variant_id ?? null;
+            const reservedQuantity = reservationsData.get(getStockReservationId(cartId, lineKey))?.quantity ?? 0;
+            const beforeVariantData = beforeData !== null ? findVariantProductData(beforeData, variantId) : null;
+            const afterVariantData = afterData !== null ? findVariantProductData(afterData, variantId) : null;
+
+            // Get the issues caused by the change
+            const beforeIssues = getCartLineIssues(line, beforeVariantData, reservedQuantity);
+            const issues = getCartLineIssues(line, afterVariantData, reservedQuantity)
+                .filter(issue => !beforeIssues.includes(issue));
+            if (issues.length === 0) {
+                return;
+            }
 
-        await cartDocument.ref.update({products: updatedProducts});
-        logInfo(`Product ${product_id} removed from cart successfully`);
+            // Remove the line, clamp its quantity to the available stock, or flag it
+            let quantity = line.quantity;
+            for (const issue of issues) {
+                let action = CART_SYNC_POLICY[issue];
+                if (action === 'clamp' && afterVariantData !== null) {
+                    quantity = Math.max(Math.min(quantity, getAvailableStock(afterVariantData) + reservedQuantity), 0);
+                    if (quantity === 0) {
+                        action = 'remove';
+                    }
+                }
+                if (action === 'remove') {
+                    quantity = 0;
+                }
+                notices.push({
+                    product_id: productId,
+                    variant_id: variantId,
+                    title: afterVariantData?.title ?? beforeVariantData?.title ?? null,
+                    issue,
+                    action,
+                    previous_quantity: line.quantity,
+                    quantity,
+                    created_at: new Date(),
+                });
+            }
 
-        res.status(200).send({message: 'Product removed from cart successfully'});
-    })
+            if (quantity === 0) {
+                delete updatedProducts[lineKey];
+                removedLineKeys.push(lineKey);
+            } else if (quantity !== line.quantity) {
+                updatedProducts[lineKey] = {...line, quantity};
+            }
+        });
+        if (notices.length === 0) {
+            return;
+        }
+
+        // Release the units reserved for the removed lines
+        await releaseStockReservations(transaction, removedLineKeys.map(lineKey => getStockReservationId(cartId, lineKey)), null);
+
+        transaction.carts.update(cartId, {
+            products: updatedProducts,
+            product_ids: getCartProductIds(updatedProducts),
+            notices: [...(cartData.notices ?? []), ...notices].slice(-MAX_CART_NOTICES),
+        });
+        logInfo(`Cart ${cartId} synced with product ${productId}: ${notices.length} notices, ${removedLineKeys.length} lines removed`);
+    });
+}
+
+// Get the product data of a product document, null if it's removed
+function getLiveProductData(productData: ProductData | undefined) {
+    return productData && !productData.deleted_at ? productData : null;
+}
+
+// Get the product fields the pending carts depend on, the reserved units change with every cart and are left out
+function getCartSyncFields(productData: ProductData | undefined) {
+    return productData && {
+        deleted_at: productData.deleted_at ? toDate(productData.deleted_at).getTime() : null,
+        active: productData.active,
+        price: productData.price,
+        stock: productData.stock,
+        variants: Object.fromEntries(Object.entries(productData.variants ?? {}).map(([variantId, variant]) => [
+            variantId,
+            {active: variant.active, price: variant.price, stock: variant.stock},
+        ])),
+    };
+}
+
+// Sync the pending carts with an update of a product document, including when it's archived
+export async function syncCartsWithProductUpdate(
+    repositories: Repositories,
+    productId: string,
+    beforeDocumentData: ProductData | undefined,
+    afterDocumentData: ProductData | undefined
+) {
+    // Skip the updates that don't change the fields the carts depend on, such as the reserved units
+    if (isDeepStrictEqual(getCartSyncFields(beforeDocumentData), getCartSyncFields(afterDocumentData))) {
+        return;
+    }
+
+    const beforeData = getLiveProductData(beforeDocumentData);
+    const afterData = getLiveProductData(afterDocumentData);
+    if (beforeData === null && afterData === null) {
+        return;
+    }
+    await syncCartsWithProduct(repositories, productId, beforeData, afterData);
+}
+
+// Trigger to sync the pending carts when a product is updated, including when it's archived
+export const sync_carts_on_product_updated = onDocumentUpdated(
+    {document: 'products/{productId}', database: DATABASE_ID},
+    async (event) => {
+        logInfo(`Function sync_carts_on_product_updated called`);
+
+        await syncCartsWithProductUpdate(
+            firestoreRepositories,
+            event.params.productId,
+            event.data?.before.data() as ProductData | undefined,
+            event.data?.after.data() as ProductData | undefined
+        );
+    }
 );
 
-// Function to update the quantity of a product in the cart
-export const update_product_quantity_in_cart = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function update_product_quantity_in_cart called`);
+// Trigger to sync the pending carts when a product is deleted
+export const sync_carts_on_product_deleted = onDocumentDeleted(
+    {document: 'products/{productId}', database: DATABASE_ID},
+    async (event) => {
+        logInfo(`Function sync_carts_on_product_deleted called`);
+
+        const beforeData = getLiveProductData(event.data?.data() as ProductData | undefined);
+        await syncCartsWithProduct(firestoreRepositories, event.params.productId, beforeData, null);
+    }
+);
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+// Function to dismiss the notices of the cart
+export const dismiss_cart_notices = defineEndpoint(
+    {
+        name: 'dismiss_cart_notices',
+        summary: 'Dismiss the notices of the cart',
+        auth: ['buyer'],
+        rateLimit: 'write',
+        idempotent: true,
+        body: emptyBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function dismiss_cart_notices called`);
 
         // Validate input data
-        const {product_id = null, quantity = null} = req.body;
-        validateNonEmptyStringField(product_id, 'Product ID');
-        validatePositiveNonZeroNumberField(quantity, 'Quantity');
+        validateRequestBody(emptyBodySchema, req.body);
 
         // Get the current pending cart
-        const cartSnapshot = await getCurrentPendingCartRef(firestore, decodedIdToken);
-        if (cartSnapshot.empty) {
+        const cart = await getCurrentPendingCart(repositories, decodedIdToken);
+        if (cart === null) {
             logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
             throw new HTTPError('No pending cart found for this user', 404);
         }
 
-        // Get the cart document
-        const cartDocument = cartSnapshot.docs[0];
-        const cartData = cartDocument.data() as CartData;
-        if (!cartData?.products[product_id]) {
-            logWarning(`Product ${product_id} not found in the cart`)
-            throw new HTTPError('Product not found in the cart', 404);
+        await repositories.carts.update(cart.id, {notices: []});
+        logInfo(`Cart notices dismissed for user: ${decodedIdToken.uid}`);
+
+        return {message: 'Cart notices dismissed successfully'};
+    }
+);
+
+// --- USER PROFILES
+
+// Update user request body schema, where every user field is optional
+const updateUserBodySchema = {
+    first_name: createUserBodySchema.first_name.optional(),
+    last_name: createUserBodySchema.last_name.optional(),
+}
+
+// Seller request body schema
+const sellerBodySchema = {
+    uid: nonEmptyStringField(),
+}
+
+// Country code field, as an ISO 3166-1 alpha-2 code
+function countryCodeField() {
+    const parseString = nonEmptyStringField().parse;
+    return new FieldSchema<string>({type: 'string', pattern: '^[A-Za-z]{2}$'}, (fieldValue, fieldName, errors) => {
+        const value = parseString(fieldValue, fieldName, errors).toUpperCase();
+        if (typeof fieldValue === 'string' && !/^[A-Z]{2}$/.test(value)) {
+            pushValidationError(errors, fieldName, 'invalid_value', `${fieldName} must be a two-letter country code`);
         }
+        return value;
+    });
+}
 
-        // Get the product data
-        const [, productData] = await getProductDataById(firestore, product_id);
+// Address request body schema
+const addressBodySchema = {
+    label: nonEmptyStringField(),
+    recipient: nonEmptyStringField(),
+    line1: nonEmptyStringField(),
+    line2: nonEmptyStringField().optional(),
+    city: nonEmptyStringField(),
+    region: nonEmptyStringField().optional(),
+    postal_code: nonEmptyStringField(),
+    country: countryCodeField(),
+    phone: nonEmptyStringField().optional(),
+}
 
-        // Check if the product is active
-        await checkProductActive(productData);
+// Add address request body schema, the first address is always the default one
+const addAddressBodySchema = {
+    ...addressBodySchema,
+    default: booleanField().default(false),
+}
 
-        // Check if the product has stock
-        await checkProductStock(productData, quantity);
+// Address ID request body schema
+const addressIdBodySchema = {
+    address_id: nonEmptyStringField(),
+}
 
-        const updatedProducts = {...cartData.products};
-        updatedProducts[product_id].quantity = quantity;
+// Update address request body schema, the address is replaced
+const updateAddressBodySchema = {
+    ...addressIdBodySchema,
+    ...addressBodySchema,
+}
 
-        await cartDocument.ref.update({products: updatedProducts});
-        logInfo(`Product ${product_id} quantity updated to ${quantity} in cart`)
+// Get the data of a user, failing if they haven't created their profile
+async function getUserData(repositories: Repositories, uid: string) {
+    const userData = await repositories.users.get(uid);
+    if (userData === null) {
+        logWarning(`User not found with ID: ${uid}`);
+        throw new HTTPError('User not found', 404);
+    }
+    return userData;
+}
 
-        res.status(200).send({message: 'Product quantity updated successfully in cart'});
-    })
-);
+// Get an address from the address book of a user
+function getUserAddress(userData: UserData, addressId: string) {
+    const address = userData.addresses?.[addressId];
+    if (address === undefined) {
+        logWarning(`Address ${addressId} not found for user ${userData.uid}`);
+        throw new HTTPError('Address not found', 404);
+    }
+    return address;
+}
 
-// Function to get the cart
-export const get_cart = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function get_cart called`)
+// Get the shipping address of an order, the default address of the user unless another one is given
+async function getShippingAddress(repositories: Repositories, uid: string, addressId: string | null) {
+    const userData = await repositories.users.get(uid);
+    if (addressId !== null) {
+        if (userData === null) {
+            logWarning(`User not found with ID: ${uid}`);
+            throw new HTTPError('Address not found', 404);
+        }
+        return getUserAddress(userData, addressId);
+    }
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+    const defaultAddressId = userData?.default_address_id ?? null;
+    return defaultAddressId !== null ? userData?.addresses?.[defaultAddressId] ?? null : null;
+}
 
-        // Get the current pending cart
-        const cartSnapshot = await getCurrentPendingCartRef(firestore, decodedIdToken);
-        if (cartSnapshot.empty) {
-            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`)
-            throw new HTTPError('No pending cart found for this user', 404);
+// Function to update the user
+export const update_user = defineEndpoint(
+    {
+        name: 'update_user',
+        summary: 'Update the user, only the given fields are changed',
+        auth: 'user',
+        rateLimit: 'write',
+        idempotent: true,
+        body: updateUserBodySchema,
+        response: messageSpec({user: refSpec('User')}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function update_user called`);
+
+        // Validate input data
+        const fields = validateRequestBody(updateUserBodySchema, req.body);
+
+        // Build the updates object from the given fields
+        const updates: Partial<UserData> = {};
+        for (const [field, value] of Object.entries(fields)) {
+            if (value !== null) {
+                updates[field as keyof typeof fields] = value;
+            }
         }
 
-        // Get the cart document
-        const cartDocument = cartSnapshot.docs[0];
-        const cartData = cartDocument.data() as CartData;
-        logInfo(`Retrieved cart data: ${JSON.stringify(cartData)}`)
+        // Update the user
+        const userData = await getUserData(repositories, decodedIdToken.uid);
+        await repositories.users.update(decodedIdToken.uid, updates);
+        logInfo(`User ${decodedIdToken.uid} updated with fields: ${Object.keys(updates).join(', ')}`);
 
-        res.status(200).send({cart: cartData});
-    })
+        return {message: 'User updated successfully', user: {...userData, ...updates}};
+    }
 );
 
-// Function to clear the cart
-export const clear_cart = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function clear_cart called`)
+// Function to get the public profile of a seller
+export const get_seller_profile = defineEndpoint(
+    {
+        name: 'get_seller_profile',
+        summary: 'Get the public profile of a seller',
+        auth: null,
+        rateLimit: 'public',
+        body: sellerBodySchema,
+        response: objectSpec({seller: refSpec('PublicUser'), product_count: {type: 'integer'}}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories) => {
+        logInfo(`Function get_seller_profile called`);
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+        // Validate input data
+        const {uid} = validateRequestBody(sellerBodySchema, req.body);
 
-        // Get the current pending cart
-        const cartSnapshot = await getCurrentPendingCartRef(firestore, decodedIdToken);
-        if (cartSnapshot.empty) {
-            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
-            throw new HTTPError('No pending cart found for this user', 404);
+        // Get the user, without their addresses, only the users with the seller role have a public profile
+        const [userData, account] = await Promise.all([repositories.users.get(uid), repositories.accounts.get(uid)]);
+        if (userData === null || account === null || !hasRole(account.claims, 'seller')) {
+            logWarning(`Seller not found with ID: ${uid}`);
+            throw new HTTPError('Seller not found', 404);
         }
 
-        // Get the cart document
-        const cartDocument = cartSnapshot.docs[0];
-
-        await cartDocument.ref.update({products: {}});
-        logInfo(`Cart cleared successfully for user: ${decodedIdToken.uid}`);
+        // Count the listed products of the seller
+        const productCount = await repositories.products.countListedByOwner(uid);
 
-        res.status(200).send({message: 'Cart cleared successfully'});
-    })
+        return {seller: getPublicUserData(userData), product_count: productCount};
+    }
 );
 
-// Function to check out the cart
-export const checkout_cart = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function checkout_cart called`)
-
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req)
+// Function to delete the user, with their Auth account
+export const delete_user = defineEndpoint(
+    {
+        name: 'delete_user',
+        summary: 'Delete the user with their Auth account, deactivating their products and scrubbing their orders and reviews',
+        auth: 'user',
+        rateLimit: 'write',
+        body: emptyBodySchema,
+        response: messageSpec(),
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function delete_user called`);
+
+        const uid = decodedIdToken.uid;
 
-        // Get the current pending cart
-        const cartSnapshot = await getCurrentPendingCartRef(firestore, decodedIdToken);
-        if (cartSnapshot.empty) {
-            logWarning(`No pending cart found for user: ${decodedIdToken.uid}`);
-            throw new HTTPError('No pending cart found for this user', 404);
+        // Validate input data
+        validateRequestBody(emptyBodySchema, req.body);
+
+        // Every step only acts on what's left of the user and the Auth account is deleted last, so a failed deletion
+        // can be retried. Deactivate the products of the user, the carts holding them are flagged by the cart sync
+        const activeProducts = (await repositories.products.findByOwner(uid)).filter(product => product.data.active);
+        await repositories.products.updateAll(new Map(activeProducts.map(product => [product.id, {active: false}])));
+        logInfo(`Deactivated ${activeProducts.length} products of user ${uid}`);
+
+        // Delete the pending cart, releasing the units reserved for every line in the same transaction
+        const cart = await repositories.carts.findPending(uid);
+        if (cart !== null) {
+            const reservationIds = Object.keys(cart.data.products ?? {}).map(lineKey => getStockReservationId(cart.id, lineKey));
+            await repositories.runTransaction(async (transaction) => {
+                await releaseStockReservations(transaction, reservationIds, uid);
+                transaction.carts.delete(cart.id);
+            });
+            logInfo(`Deleted pending cart ${cart.id} of user ${uid}`);
         }
 
-        // Get the cart document
-        const cartDocument = cartSnapshot.docs[0];
+        // Keep the orders of the user without their personal data, for the records of the sellers
+        const scrubbedCount = await repositories.orders.scrubOwner(uid);
+        logInfo(`Scrubbed ${scrubbedCount} orders of user ${uid}`);
 
-        // Perform checkout logic here (e.g., payment processing, order creation)
+        // Keep the reviews of the user under anonymous owners, as the product ratings count them
+        const anonymizedCount = await repositories.reviews.anonymizeOwner(uid);
+        logInfo(`Anonymized ${anonymizedCount} reviews of user ${uid}`);
 
-        // Update the cart status to 'completed'
-        await cartDocument.ref.update({status: 'completed'});
-        logInfo(`Checkout completed successfully for user: ${decodedIdToken.uid}`);
+        // Delete the idempotency keys of the user with the responses they hold, the endpoint isn't idempotent so no
+        // key is held by this request
+        const deletedKeyCount = await repositories.idempotencyKeys.deleteByOwner(uid);
+        logInfo(`Deleted ${deletedKeyCount} idempotency keys of user ${uid}`);
 
-        res.status(200).send({message: 'Checkout completed successfully'});
-    })
+        // Delete the profile and the Auth account last
+        await repositories.users.delete(uid);
+        await repositories.accounts.delete(uid);
+        logInfo(`User ${uid} deleted`);
+
+        return {message: 'User deleted successfully'};
+    }
 );
 
-// Function to create a new product
-export const create_product = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function create_product called`);
+// Function to list the addresses of the user
+export const list_addresses = defineEndpoint(
+    {
+        name: 'list_addresses',
+        summary: 'List the addresses of the user',
+        auth: 'user',
+        rateLimit: 'read',
+        body: emptyBodySchema,
+        response: objectSpec({addresses: mapSpec(refSpec('Address')), default_address_id: {type: 'string', nullable: true}}),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function list_addresses called`);
+
+        // Validate input data
+        validateRequestBody(emptyBodySchema, req.body);
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+        const userData = await getUserData(repositories, decodedIdToken.uid);
+
+        return {addresses: userData.addresses ?? {}, default_address_id: userData.default_address_id ?? null};
+    }
+);
+
+// Function to add an address to the address book of the user
+export const add_address = defineEndpoint(
+    {
+        name: 'add_address',
+        summary: 'Add an address to the address book of the user, the first address is the default one',
+        auth: 'user',
+        rateLimit: 'write',
+        idempotent: true,
+        body: addAddressBodySchema,
+        response: messageSpec({address_id: {type: 'string'}}),
+        errors: [404, 409],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function add_address called`);
 
         // Validate input data
-        const {
-            title = null,
-            description = null,
-            price = null,
-            stock = null,
-            active = null,
-            brand = null,
-            tags = null,
-            image_url = null,
-            sku = null,
-        } = req.body;
-        const mappedStringFields: Record<string, any> = {
-            'Title': title,
-            'Description': description,
-            'Brand': brand,
-            'Image URL': image_url,
-            'SKU': sku,
-        }
-        const mappedPositiveNumberFields: Record<string, any> = {
-            'Price': price,
-            'Stock': stock,
-        }
-        for (const mappedFieldKey in mappedStringFields) {
-            validateNonEmptyStringField(mappedStringFields[mappedFieldKey], mappedFieldKey);
-        }
-        for (const mappedFieldKey in mappedPositiveNumberFields) {
-            validatePositiveNonZeroNumberField(mappedPositiveNumberFields[mappedFieldKey], mappedFieldKey);
-        }
-        validateArrayField(tags, 'Tags');
-        for (const [i, tag] of tags) {
-            validateNonEmptyStringField(tag, 'Tag on index ' + i);
-        }
-        validateBooleanField(active, 'Active');
-
-        // Create a new product object
-        const newProduct = {
-            title,
-            description,
-            price,
-            stock,
-            active,
-            brand,
-            tags: Array.isArray(tags) ? tags : [],
-            owner: decodedIdToken.uid,
-            image_url,
-            sku,
-            created_at: new Date(),
-        };
+        const {default: isDefault, ...address} = validateRequestBody(addAddressBodySchema, req.body);
+
+        // Check the address book isn't full
+        const userData = await getUserData(repositories, decodedIdToken.uid);
+        const addresses = userData.addresses ?? {};
+        if (Object.keys(addresses).length >= MAX_ADDRESSES) {
+            logWarning(`User ${decodedIdToken.uid} already has ${MAX_ADDRESSES} addresses`);
+            throw new HTTPError(`You cannot have more than ${MAX_ADDRESSES} addresses`, 409);
+        }
 
-        // Save the product to Firestore
-        const productRef = await firestore.collection('products').add(newProduct);
-        logInfo(`Product created successfully with ID: ${productRef.id}`);
+        // Add the address, making it the default one if requested or if the user has no default address
+        const addressId = randomBytes(8).toString('hex');
+        const defaultAddressId = isDefault || !userData.default_address_id ? addressId : userData.default_address_id;
+        await repositories.users.update(decodedIdToken.uid, {
+            addresses: {...addresses, [addressId]: address},
+            default_address_id: defaultAddressId,
+        });
+        logInfo(`Address ${addressId} added for user ${decodedIdToken.uid}`);
 
-        res.status(200).send({message: 'Product created successfully'});
-    })
+        return {message: 'Address added successfully', address_id: addressId};
+    }
 );
 
-// Function to get a product by ID
-export const get_product_by_id = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function get_product_by_id called`);
+// Function to replace an address of the address book of the user
+export const update_address = defineEndpoint(
+    {
+        name: 'update_address',
+        summary: 'Replace an address of the address book of the user',
+        auth: 'user',
+        rateLimit: 'write',
+        idempotent: true,
+        body: updateAddressBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function update_address called`);
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+        // Validate input data
+        const {address_id, ...address} = validateRequestBody(updateAddressBodySchema, req.body);
+
+        // Replace the address
+        const userData = await getUserData(repositories, decodedIdToken.uid);
+        getUserAddress(userData, address_id);
+        await repositories.users.update(decodedIdToken.uid, {addresses: {...userData.addresses, [address_id]: address}});
+        logInfo(`Address ${address_id} updated for user ${decodedIdToken.uid}`);
+
+        return {message: 'Address updated successfully'};
+    }
+);
+
+// Function to delete an address from the address book of the user
+export const delete_address = defineEndpoint(
+    {
+        name: 'delete_address',
+        summary: 'Delete an address from the address book of the user, the user has no default address if it was the default one',
+        auth: 'user',
+        rateLimit: 'write',
+        idempotent: true,
+        body: addressIdBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function delete_address called`);
 
         // Validate input data
-        const {product_id = null} = req.body;
-        validateNonEmptyStringField(product_id, 'Product ID');
+        const {address_id} = validateRequestBody(addressIdBodySchema, req.body);
+
+        // Delete the address
+        const userData = await getUserData(repositories, decodedIdToken.uid);
+        getUserAddress(userData, address_id);
+        const {[address_id]: _deletedAddress, ...addresses} = userData.addresses ?? {};
+        await repositories.users.update(decodedIdToken.uid, {
+            addresses,
+            default_address_id: userData.default_address_id === address_id ? null : userData.default_address_id ?? null,
+        });
+        logInfo(`Address ${address_id} deleted for user ${decodedIdToken.uid}`);
 
-        // Get the product data
-        const [, productData] = await getProductDataById(firestore, product_id);
-        logInfo(`Retrieved product data: ${JSON.stringify(productData)}`);
+        return {message: 'Address deleted successfully'};
+    }
+);
 
-        // Check if the product is active if the user is not the owner
-        const ownerData = productData.owner as UserData;
-        if (ownerData.uid !== decodedIdToken.uid) {
-            logWarning(`User ${decodedIdToken.uid} is not the owner of product ${product_id}`);
-            await checkProductActive(productData);
-        } else {
-            logInfo(`User ${decodedIdToken.uid} is the owner of product ${product_id}`);
-        }
+// Function to set the default address of the user
+export const set_default_address = defineEndpoint(
+    {
+        name: 'set_default_address',
+        summary: 'Set the default address of the user, used by the checkout unless another one is given',
+        auth: 'user',
+        rateLimit: 'write',
+        idempotent: true,
+        body: addressIdBodySchema,
+        response: messageSpec(),
+        errors: [404],
+    },
+    async (req: Request, res: Response, repositories: Repositories, decodedIdToken: DecodedIdToken) => {
+        logInfo(`Function set_default_address called`);
 
-        res.status(200).send({product: productData})
-    })
+        // Validate input data
+        const {address_id} = validateRequestBody(addressIdBodySchema, req.body);
+
+        // Set the default address
+        const userData = await getUserData(repositories, decodedIdToken.uid);
+        getUserAddress(userData, address_id);
+        await repositories.users.update(decodedIdToken.uid, {default_address_id: address_id});
+        logInfo(`Default address of user ${decodedIdToken.uid} set to ${address_id}`);
+
+        return {message: 'Default address set successfully'};
+    }
 );
 
-// Function to update a product
-export const update_product = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function update_product called`);
+// --- API
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+// HTTP method of an API route
+type ApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
 
-        // Validate input data
-        const {
-            product_id = null,
-            title = null,
-            description = null,
-            price = null,
-            stock = null,
-            active = null,
-            brand = null,
-            tags = null,
-            image_url = null,
-            sku = null,
-        } = req.body;
-        validateNonEmptyStringField(product_id, 'Product ID');
-
-        // Build the updates object
-        const updates: Record<string, any> = {};
-        const mappedStringFields: Record<string, any> = {
-            'Title': title,
-            'Description': description,
-            'Brand': brand,
-            'Image URL': image_url,
-            'SKU': sku,
-        }
-        const mappedPositiveNumberFields: Record<string, any> = {
-            'Price': price,
-            'Stock': stock,
-        }
-        for (const mappedFieldKey in mappedStringFields) {
-            if (mappedStringFields[mappedFieldKey] !== null) {
-                validateNonEmptyStringField(mappedStringFields[mappedFieldKey], mappedFieldKey);
-                updates[mappedFieldKey.toLowerCase().replace(' ', '_')] = mappedStringFields[mappedFieldKey];
-            }
-        }
-        for (const mappedFieldKey in mappedPositiveNumberFields) {
-            if (mappedPositiveNumberFields[mappedFieldKey] !== null) {
-                validatePositiveNonZeroNumberField(mappedPositiveNumberFields[mappedFieldKey], mappedFieldKey);
-                updates[mappedFieldKey.toLowerCase().replace(' ', '_')] = mappedPositiveNumberFields[mappedFieldKey];
-            }
+// API route, the path parameters and the query or body are merged into the request body of the handler
+type ApiRouteData = {
+    method: ApiMethod,
+    path: string,
+    endpoint: ReturnType<typeof defineEndpoint>,
+    params?: Record<string, string>, // Path parameter to request field
+    query?: Record<string, string>, // Query parameter to request field
+    status?: number, // Status sent on success, 200 unless given
+}
+
+// Routes of the API function, the first route matching the path is used
+const API_ROUTES: ApiRouteData[] = [
+    // Users
+    {method: 'POST', path: '/users', endpoint: create_user, status: 201},
+    {method: 'GET', path: '/users/me', endpoint: get_user_by_id},
+    {method: 'PATCH', path: '/users/me', endpoint: update_user},
+    {method: 'DELETE', path: '/users/me', endpoint: delete_user, status: 204},
+    {method: 'GET', path: '/users/me/addresses', endpoint: list_addresses},
+    {method: 'POST', path: '/users/me/addresses', endpoint: add_address, status: 201},
+    {method: 'PUT', path: '/users/me/addresses/:addressId', endpoint: update_address, params: {addressId: 'address_id'}},
+    {method: 'DELETE', path: '/users/me/addresses/:addressId', endpoint: delete_address, params: {addressId: 'address_id'}, status: 204},
+    {method: 'PUT', path: '/users/me/addresses/:addressId/default', endpoint: set_default_address, params: {addressId: 'address_id'}},
+    {method: 'POST', path: '/users/:uid/roles', endpoint: grant_role, params: {uid: 'uid'}},
+    {method: 'DELETE', path: '/users/:uid/roles/:role', endpoint: revoke_role, params: {uid: 'uid', role: 'role'}, status: 204},
+    {method: 'PUT', path: '/users/:uid/suspension', endpoint: suspend_user, params: {uid: 'uid'}},
+    {method: 'DELETE', path: '/users/:uid/suspension', endpoint: unsuspend_user, params: {uid: 'uid'}, status: 204},
+
+    // Sellers
+    {method: 'GET', path: '/sellers/:uid', endpoint: get_seller_profile, params: {uid: 'uid'}},
+
+    // Cart
+    {method: 'GET', path: '/cart', endpoint: get_cart},
+    {method: 'POST', path: '/cart/refresh', endpoint: refresh_cart},
+    {method: 'POST', path: '/cart/checkout', endpoint: checkout_cart, status: 201},
+    {method: 'POST', path: '/cart/items', endpoint: add_product_to_cart, status: 201},
+    {method: 'DELETE', path: '/cart/items', endpoint: clear_cart, status: 204},
+    {method: 'PATCH', path: '/cart/items/:productId', endpoint: update_product_quantity_in_cart, params: {productId: 'product_id'}},
+    {method: 'DELETE', path: '/cart/items/:productId', endpoint: remove_product_from_cart, params: {productId: 'product_id'}, status: 204},
+    {method: 'PUT', path: '/cart/coupon', endpoint: apply_coupon_to_cart},
+    {method: 'DELETE', path: '/cart/coupon', endpoint: remove_coupon_from_cart, status: 204},
+    {method: 'DELETE', path: '/cart/notices', endpoint: dismiss_cart_notices, status: 204},
+
+    // Products
+    {method: 'GET', path: '/products', endpoint: search_products, query: {q: 'query'}},
+    {method: 'POST', path: '/products', endpoint: create_product, status: 201},
+    {method: 'GET', path: '/products/latest', endpoint: get_latest_products},
+    {method: 'GET', path: '/products/archived', endpoint: list_archived_products},
+    {method: 'GET', path: '/products/:id', endpoint: get_product_by_id, params: {id: 'product_id'}},
+    {method: 'PATCH', path: '/products/:id', endpoint: update_product, params: {id: 'product_id'}},
+    {method: 'DELETE', path: '/products/:id', endpoint: remove_product, params: {id: 'product_id'}, status: 204},
+    {method: 'POST', path: '/products/:id/restore', endpoint: restore_product, params: {id: 'product_id'}},
+    {method: 'POST', path: '/products/:id/deactivate', endpoint: deactivate_product, params: {id: 'product_id'}},
+
+    // Inventory
+    {method: 'GET', path: '/products/:id/stock-movements', endpoint: list_product_stock_movements, params: {id: 'product_id'}},
+    {method: 'POST', path: '/products/:id/stock-movements', endpoint: adjust_product_stock, params: {id: 'product_id'}, status: 201},
+    {method: 'POST', path: '/products/:id/stock/recompute', endpoint: recompute_product_stock, params: {id: 'product_id'}},
+
+    // Product images
+    {method: 'POST', path: '/products/:id/images/uploads', endpoint: request_product_image_upload, params: {id: 'product_id'}, status: 201},
+    {method: 'PUT', path: '/products/:id/images/order', endpoint: reorder_product_images, params: {id: 'product_id'}},
+    {method: 'POST', path: '/products/:id/images/:imageId', endpoint: confirm_product_image_upload, params: {id: 'product_id', imageId: 'image_id'}, status: 201},
+    {method: 'DELETE', path: '/products/:id/images/:imageId', endpoint: delete_product_image, params: {id: 'product_id', imageId: 'image_id'}, status: 204},
+    {method: 'PUT', path: '/products/:id/images/:imageId/primary', endpoint: set_primary_product_image, params: {id: 'product_id', imageId: 'image_id'}},
+
+    // Reviews
+    {method: 'GET', path: '/products/:id/reviews', endpoint: list_product_reviews, params: {id: 'product_id'}},
+    {method: 'POST', path: '/products/:id/reviews', endpoint: create_review, params: {id: 'product_id'}, status: 201},
+    {method: 'PATCH', path: '/products/:id/reviews/mine', endpoint: update_review, params: {id: 'product_id'}},
+    {method: 'DELETE', path: '/products/:id/reviews/mine', endpoint: delete_review, params: {id: 'product_id'}, status: 204},
+
+    // Seller
+    {method: 'GET', path: '/me/products', endpoint: get_my_products},
+    {method: 'GET', path: '/me/products/search', endpoint: search_my_products, query: {q: 'query'}},
+    {method: 'GET', path: '/me/sales', endpoint: get_my_sales},
+    {method: 'GET', path: '/me/sales/summary', endpoint: get_my_sales_summary},
+    {method: 'GET', path: '/me/sales/top-products', endpoint: get_my_top_products},
+
+    // Orders
+    {method: 'GET', path: '/orders', endpoint: list_my_orders},
+    {method: 'GET', path: '/orders/:id', endpoint: get_order_by_id, params: {id: 'order_id'}},
+
+    // Categories
+    {method: 'GET', path: '/categories', endpoint: list_categories},
+    {method: 'POST', path: '/categories', endpoint: create_category, status: 201},
+    {method: 'PATCH', path: '/categories/:id', endpoint: update_category, params: {id: 'category_id'}},
+    {method: 'DELETE', path: '/categories/:id', endpoint: delete_category, params: {id: 'category_id'}, status: 204},
+
+    // Coupons
+    {method: 'POST', path: '/coupons', endpoint: create_coupon, status: 201},
+
+    // Migrations
+    {method: 'POST', path: '/migrations/:name', endpoint: run_migration, params: {name: 'name'}},
+];
+
+// Helper function to match a request path against a route path, returning the path parameters
+function matchApiPath(routePath: string, path: string): Record<string, string> | null {
+    const routeSegments = routePath.split('/').filter(segment => segment !== '');
+    const segments = path.split('/').filter(segment => segment !== '');
+    if (routeSegments.length !== segments.length) {
+        return null;
+    }
+
+    const params: Record<string, string> = {};
+    for (let i = 0; i < routeSegments.length; i++) {
+        if (routeSegments[i].startsWith(':')) {
+            params[routeSegments[i].slice(1)] = decodeURIComponent(segments[i]);
+        } else if (routeSegments[i] !== segments[i]) {
+            return null;
         }
-        if (active !== null) {
-            validateBooleanField(active, 'Active');
-            updates.active = active;
+    }
+    return params;
+}
+
+// Helper function to get the request body of a route, reads take their input from the query parameters
+function getApiRequestBody(route: ApiRouteData, req: Request, params: Record<string, string>) {
+    const input: Record<string, unknown> = route.method === 'GET' || route.method === 'DELETE'
+        ? {...req.query}
+        : {...(req.body ?? {})};
+
+    // Rename the query parameters to the request fields
+    Object.entries(route.query ?? {}).forEach(([queryParam, field]) => {
+        if (queryParam in input) {
+            input[field] = input[queryParam];
+            delete input[queryParam];
         }
-        if (tags !== null) {
-            validateArrayField(tags, 'Tags');
-            for (const [i, tag] of tags) {
-                validateNonEmptyStringField(tag, 'Tag on index ' + i);
-            }
-            updates.tags = tags;
+    });
+
+    // The path parameters take precedence over the query or body
+    Object.entries(route.params ?? {}).forEach(([param, field]) => {
+        input[field] = params[param];
+    });
+    return input;
+}
+
+// Create the handler of the API over the repositories, routing the requests to the endpoint handlers
+function createApiHandler(repositories: Repositories) {
+    return handleRequestError(async (req: Request, res: Response) => {
+        logInfo(`Function api called: ${req.method} ${req.path}`);
+
+        // Find the routes of the path, then the route of the method
+        const matches = API_ROUTES
+            .map(route => ({route, params: matchApiPath(route.path, req.path)}))
+            .filter(({params}) => params !== null);
+        if (matches.length === 0) {
+            logWarning(`Route not found: ${req.method} ${req.path}`);
+            throw new HTTPError('Route not found', 404);
         }
 
-        // Get the product data
-        const [productRef, productData] = await getProductDataById(firestore, product_id);
-        const ownerData = productData.owner as UserData;
-        if (ownerData.uid !== decodedIdToken.uid) {
-            logWarning(`User ${decodedIdToken.uid} is not the owner of product ${product_id}`);
-            throw new HTTPError('You are not the owner of this product', 403);
+        const match = matches.find(({route}) => route.method === req.method);
+        if (match === undefined) {
+            const allowedMethods = [...new Set(matches.map(({route}) => route.method))];
+            logWarning(`Method not allowed: ${req.method} ${req.path}`);
+            res.set('Allow', allowedMethods.join(', '));
+            throw new HTTPError('Method not allowed', 405, {allowed_methods: allowedMethods});
         }
+        const {route, params} = match as { route: ApiRouteData, params: Record<string, string> };
 
-        await productRef.update({...updates});
-        logInfo(`Product ${product_id} updated successfully`);
+        // Give the handler its input as a request body
+        req.body = getApiRequestBody(route, req, params);
 
-        res.status(200).send({message: 'Product updated successfully'})
-    })
-);
+        // Send the status of the route on success
+        await route.endpoint.createHandler(repositories, route.status)(req, res);
+    });
+}
 
-// Function to remove a product
-export const remove_product = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function remove_product called`);
+// Function to serve the resource-oriented API over the endpoint handlers, the Firestore repositories are created once
+// the module is loaded
+export const api = Object.assign(
+    onRequestWithCORS('api', (req: Request, res: Response) => createApiHandler(firestoreRepositories)(req, res)),
+    {createHandler: createApiHandler}
+);
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+// --- OPENAPI
+
+// Descriptions of the status codes sent by the endpoints
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+    200: 'OK',
+    201: 'Created',
+    204: 'No Content',
+    400: 'Invalid request',
+    401: 'Not authenticated',
+    403: 'Not authorized',
+    404: 'Not found',
+    409: 'Conflict with the current state of the resource',
+    429: 'Too many requests, retry after the seconds of the Retry-After header',
+    500: 'Internal server error',
+};
+
+// Get the OpenAPI schema referencing a component schema
+function refSpec(name: string): OpenApiSchemaData {
+    return {$ref: `#/components/schemas/${name}`};
+}
 
-        // Validate input data
-        const {product_id = null} = req.body;
-        validateNonEmptyStringField(product_id, 'Product ID');
+// Get the OpenAPI schema of an object, every property is required
+function objectSpec(properties: Record<string, OpenApiSchemaData>): OpenApiSchemaData {
+    return {type: 'object', properties, required: Object.keys(properties)};
+}
 
-        // Get the product data
-        const [productRef, productData] = await getProductDataById(firestore, product_id);
-        const ownerData = productData.owner as UserData;
-        if (ownerData.uid !== decodedIdToken.uid) {
-            logWarning(`User ${decodedIdToken.uid} is not the owner of product ${product_id}`);
-            throw new HTTPError('You are not the owner of this product', 403);
-        }
+// Get the OpenAPI schema of an object keyed by ID
+function mapSpec(itemSpec: OpenApiSchemaData): OpenApiSchemaData {
+    return {type: 'object', additionalProperties: itemSpec};
+}
 
-        await productRef.delete();
-        logInfo(`Product ${product_id} removed successfully`);
+// Get the OpenAPI schema of a response with a message
+function messageSpec(properties: Record<string, OpenApiSchemaData> = {}): OpenApiSchemaData {
+    return objectSpec({message: {type: 'string'}, ...properties});
+}
 
-        res.status(200).send({message: 'Product removed successfully'})
-    })
-);
+// Get the OpenAPI schema of a listing response, the items are keyed by ID unless they're listed in an array
+function pageSpec(field: string, itemSpec: OpenApiSchemaData, properties: Record<string, OpenApiSchemaData> = {},
+                  container: 'map' | 'array' = 'map'): OpenApiSchemaData {
+    return {
+        type: 'object',
+        properties: {
+            [field]: container === 'map' ? mapSpec(itemSpec) : {type: 'array', items: itemSpec},
+            ...properties,
+            next_page_token: {type: 'string', nullable: true},
+            total_count: {type: 'integer', description: 'Only sent when include_total_count is true'},
+        },
+        required: [field, ...Object.keys(properties), 'next_page_token'],
+    };
+}
 
-// Get my products
-export const get_my_products = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function get_my_products called`);
+// Nullable OpenAPI schema
+function nullableSpec(spec: OpenApiSchemaData): OpenApiSchemaData {
+    return {...spec, nullable: true};
+}
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+// OpenAPI schemas of the Firestore timestamps, as they are serialized, and of the plain data types
+const TIMESTAMP_SPEC = refSpec('Timestamp');
+const STRING_SPEC = {type: 'string'};
+const NUMBER_SPEC = {type: 'number'};
+const INTEGER_SPEC = {type: 'integer'};
+const BOOLEAN_SPEC = {type: 'boolean'};
+const STRING_ARRAY_SPEC = {type: 'array', items: STRING_SPEC};
+const STRING_MAP_SPEC = mapSpec(STRING_SPEC);
+
+// Order summary properties, the order adds its line items
+const ORDER_SUMMARY_PROPERTIES = {
+    owner: STRING_SPEC,
+    cart_id: STRING_SPEC,
+    status: STRING_SPEC,
+    item_count: INTEGER_SPEC,
+    coupon_code: nullableSpec(STRING_SPEC),
+    subtotal: NUMBER_SPEC,
+    discount: NUMBER_SPEC,
+    total: NUMBER_SPEC,
+    shipping_address: nullableSpec(refSpec('Address')),
+    created_at: TIMESTAMP_SPEC,
+};
+
+// Order item properties, the sale lines add the order and the buyer
+const ORDER_ITEM_PROPERTIES = {
+    product_id: STRING_SPEC,
+    variant_id: nullableSpec(STRING_SPEC),
+    sku: STRING_SPEC,
+    options: nullableSpec(STRING_MAP_SPEC),
+    title: STRING_SPEC,
+    brand: STRING_SPEC,
+    image_url: STRING_SPEC,
+    seller: STRING_SPEC,
+    unit_price: NUMBER_SPEC,
+    quantity: INTEGER_SPEC,
+    subtotal: NUMBER_SPEC,
+    discount: NUMBER_SPEC,
+    total: NUMBER_SPEC,
+};
+
+// OpenAPI component schemas of the response data
+const OPENAPI_COMPONENT_SCHEMAS: Record<string, OpenApiSchemaData> = {
+    Timestamp: objectSpec({_seconds: INTEGER_SPEC, _nanoseconds: INTEGER_SPEC}),
+    Error: {
+        type: 'object',
+        properties: {
+            error: STRING_SPEC,
+            details: {description: 'Details of the error, such as the invalid fields or the products that failed the checkout'},
+        },
+        required: ['error'],
+    },
+    ValidationError: objectSpec({field: STRING_SPEC, code: STRING_SPEC, message: STRING_SPEC}),
+    PublicUser: objectSpec({uid: STRING_SPEC, first_name: STRING_SPEC, last_name: STRING_SPEC}),
+    User: {
+        type: 'object',
+        properties: {
+            uid: STRING_SPEC,
+            first_name: STRING_SPEC,
+            last_name: STRING_SPEC,
+            addresses: mapSpec(refSpec('Address')),
+            default_address_id: nullableSpec(STRING_SPEC),
+        },
+        required: ['uid', 'first_name', 'last_name'],
+    },
+    Address: {
+        type: 'object',
+        properties: {
+            label: STRING_SPEC,
+            recipient: STRING_SPEC,
+            line1: STRING_SPEC,
+            line2: nullableSpec(STRING_SPEC),
+            city: STRING_SPEC,
+            region: nullableSpec(STRING_SPEC),
+            postal_code: STRING_SPEC,
+            country: STRING_SPEC,
+            phone: nullableSpec(STRING_SPEC),
+        },
+        required: ['label', 'recipient', 'line1', 'city', 'postal_code', 'country'],
+    },
+    ProductOption: objectSpec({name: STRING_SPEC, values: STRING_ARRAY_SPEC}),
+    ProductVariant: objectSpec({
+        sku: STRING_SPEC,
+        options: STRING_MAP_SPEC,
+        price: NUMBER_SPEC,
+        stock: INTEGER_SPEC,
+        reserved: INTEGER_SPEC,
+        available: INTEGER_SPEC,
+        active: BOOLEAN_SPEC,
+        image_url: STRING_SPEC,
+    }),
+    ProductImage: objectSpec({
+        id: STRING_SPEC,
+        path: STRING_SPEC,
+        url: STRING_SPEC,
+        content_type: STRING_SPEC,
+        size: INTEGER_SPEC,
+        created_at: TIMESTAMP_SPEC,
+    }),
+    Product: {
+        type: 'object',
+        properties: {
+            title: STRING_SPEC,
+            description: STRING_SPEC,
+            price: NUMBER_SPEC,
+            stock: INTEGER_SPEC,
+            reserved: INTEGER_SPEC,
+            available: {...INTEGER_SPEC, description: 'Only sent by get_product_by_id'},
+            active: BOOLEAN_SPEC,
+            brand: STRING_SPEC,
+            tags: STRING_ARRAY_SPEC,
+            owner: {oneOf: [STRING_SPEC, refSpec('PublicUser')]},
+            image_url: STRING_SPEC,
+            sku: STRING_SPEC,
+            rating_average: NUMBER_SPEC,
+            rating_count: INTEGER_SPEC,
+            options: {type: 'array', items: refSpec('ProductOption')},
+            variants: mapSpec(refSpec('ProductVariant')),
+            category_id: nullableSpec(STRING_SPEC),
+            category_ids: STRING_ARRAY_SPEC,
+            images: {type: 'array', items: refSpec('ProductImage')},
+            deleted_at: nullableSpec(TIMESTAMP_SPEC),
+            purge_at: nullableSpec(TIMESTAMP_SPEC),
+            purged_at: {
+                ...nullableSpec(TIMESTAMP_SPEC),
+                description: 'Set on the tombstones of the purged products referenced by an order, which have no images',
+            },
+            created_at: TIMESTAMP_SPEC,
+        },
+        required: ['title', 'description', 'price', 'stock', 'active', 'brand', 'tags', 'owner', 'image_url', 'sku', 'created_at'],
+    },
+    PriceBucket: objectSpec({min: NUMBER_SPEC, max: nullableSpec(NUMBER_SPEC), count: INTEGER_SPEC}),
+    ProductFacets: objectSpec({
+        brands: mapSpec(INTEGER_SPEC),
+        tags: mapSpec(INTEGER_SPEC),
+        categories: mapSpec(INTEGER_SPEC),
+        price: {type: 'array', items: refSpec('PriceBucket')},
+    }),
+    Category: objectSpec({
+        name: STRING_SPEC,
+        parent_id: nullableSpec(STRING_SPEC),
+        ancestor_ids: STRING_ARRAY_SPEC,
+        created_at: TIMESTAMP_SPEC,
+    }),
+    Cart: {
+        type: 'object',
+        properties: {
+            owner: STRING_SPEC,
+            status: STRING_SPEC,
+            products: mapSpec(objectSpec({
+                product_id: STRING_SPEC,
+                variant_id: nullableSpec(STRING_SPEC),
+                price: NUMBER_SPEC,
+                quantity: INTEGER_SPEC,
+            })),
+            coupon_code: nullableSpec(STRING_SPEC),
+        },
+        required: ['owner', 'status', 'products'],
+    },
+    CartLine: objectSpec({
+        product_id: STRING_SPEC,
+        variant_id: nullableSpec(STRING_SPEC),
+        options: nullableSpec(STRING_MAP_SPEC),
+        quantity: INTEGER_SPEC,
+        price: NUMBER_SPEC,
+        current_price: nullableSpec(NUMBER_SPEC),
+        title: nullableSpec(STRING_SPEC),
+        image_url: nullableSpec(STRING_SPEC),
+        active: BOOLEAN_SPEC,
+        available_stock: INTEGER_SPEC,
+        reserved_quantity: INTEGER_SPEC,
+        issues: {type: 'array', items: {type: 'string', enum: ['price_changed', 'inactive', 'deleted', 'over_stock']}},
+    }),
+    CartPricing: objectSpec({
+        lines: mapSpec(objectSpec({
+            unit_price: NUMBER_SPEC,
+            quantity: INTEGER_SPEC,
+            subtotal: NUMBER_SPEC,
+            discount: NUMBER_SPEC,
+            total: NUMBER_SPEC,
+        })),
+        coupon_code: nullableSpec(STRING_SPEC),
+        subtotal: NUMBER_SPEC,
+        discount: NUMBER_SPEC,
+        total: NUMBER_SPEC,
+    }),
+    CartNotice: objectSpec({
+        product_id: STRING_SPEC,
+        variant_id: nullableSpec(STRING_SPEC),
+        title: nullableSpec(STRING_SPEC),
+        issue: {type: 'string', enum: ['price_changed', 'inactive', 'deleted', 'over_stock']},
+        action: {type: 'string', enum: ['remove', 'clamp', 'flag']},
+        previous_quantity: INTEGER_SPEC,
+        quantity: INTEGER_SPEC,
+        created_at: TIMESTAMP_SPEC,
+    }),
+    OrderSummary: objectSpec(ORDER_SUMMARY_PROPERTIES),
+    Order: objectSpec({
+        ...ORDER_SUMMARY_PROPERTIES,
+        items: {type: 'array', items: objectSpec(ORDER_ITEM_PROPERTIES)},
+        product_ids: STRING_ARRAY_SPEC,
+        sellers: STRING_ARRAY_SPEC,
+    }),
+    Sale: objectSpec({
+        ...ORDER_ITEM_PROPERTIES,
+        order_id: STRING_SPEC,
+        buyer: STRING_SPEC,
+        created_at: {type: 'string', format: 'date-time'},
+    }),
+    SalesAggregate: {
+        type: 'object',
+        properties: {product_id: STRING_SPEC, title: STRING_SPEC, units_sold: INTEGER_SPEC, revenue: NUMBER_SPEC},
+        required: ['units_sold', 'revenue'],
+    },
+    Review: objectSpec({
+        product_id: STRING_SPEC,
+        owner: STRING_SPEC,
+        rating: INTEGER_SPEC,
+        text: STRING_SPEC,
+        images: STRING_ARRAY_SPEC,
+        created_at: TIMESTAMP_SPEC,
+        updated_at: TIMESTAMP_SPEC,
+    }),
+    StockMovement: objectSpec({
+        product_id: STRING_SPEC,
+        variant_id: nullableSpec(STRING_SPEC),
+        delta: INTEGER_SPEC,
+        reserved_delta: INTEGER_SPEC,
+        stock_after: INTEGER_SPEC,
+        reserved_after: INTEGER_SPEC,
+        reason: {type: 'string', enum: STOCK_MOVEMENT_REASONS},
+        actor: nullableSpec(STRING_SPEC),
+        order_id: nullableSpec(STRING_SPEC),
+        cart_id: nullableSpec(STRING_SPEC),
+        note: nullableSpec(STRING_SPEC),
+        created_at: TIMESTAMP_SPEC,
+    }),
+    StockRecomputation: objectSpec({
+        stock: INTEGER_SPEC,
+        reserved: INTEGER_SPEC,
+        ledger_stock: INTEGER_SPEC,
+        ledger_reserved: INTEGER_SPEC,
+        variants: mapSpec(objectSpec({
+            stock: INTEGER_SPEC,
+            reserved: INTEGER_SPEC,
+            ledger_stock: INTEGER_SPEC,
+            ledger_reserved: INTEGER_SPEC,
+        })),
+        consistent: {type: 'boolean', description: 'Whether the product agrees with its ledger, once applied'},
+        was_consistent: {type: 'boolean', description: 'Whether the product agreed with its ledger before applying'},
+        applied: BOOLEAN_SPEC,
+        stock_delta: {type: 'integer', description: 'Change of the stock of the product, when applied'},
+        reserved_delta: {type: 'integer', description: 'Change of the reserved units of the product, when applied'},
+    }),
+};
+
+// Get the OpenAPI responses of an endpoint, the validation, authorization, rate limit and internal errors are added to
+// its own
+function getOpenApiResponses(definition: EndpointDefinitionData, status: number, extraErrors: number[] = []) {
+    const responses: Record<string, unknown> = {
+        [status]: status === 204
+            ? {description: STATUS_DESCRIPTIONS[status]}
+            : {description: STATUS_DESCRIPTIONS[status], content: {'application/json': {schema: definition.response}}},
+    };
 
-        // Validate input data
-        const {limit = 10, offset = 0} = req.body;
-        validatePositiveNonZeroNumberField(limit, 'Limit');
-        validatePositiveNumberField(offset, 'Offset');
+    const errors = new Set([400, ...(definition.auth !== null ? [401, 403] : []), ...(definition.errors ?? []), ...extraErrors, 429, 500]);
+    [...errors].sort((a, b) => a - b).forEach(error => {
+        responses[error] = {
+            description: STATUS_DESCRIPTIONS[error],
+            ...(error === 429 ? {headers: {'Retry-After': {schema: INTEGER_SPEC}}} : {}),
+            content: {'application/json': {schema: refSpec('Error')}},
+        };
+    });
+    return responses;
+}
 
-        // Get the products for the authenticated user
-        let productsRef = firestore.collection('products')
-            .where('owner', '==', decodedIdToken.uid)
+// Get the OpenAPI operation of an endpoint, its fields are given in the parameters or in the request body
+function getOpenApiOperation(definition: EndpointDefinitionData, operationId: string, tag: string,
+                             parameters: unknown[], body: RequestSchema | null, status: number, extraErrors: number[] = []) {
+    let description = 'Public endpoint';
+    if (definition.auth === 'user') {
+        description = 'Requires an authenticated user';
+    } else if (definition.auth !== null) {
+        description = `Requires one of the roles: ${definition.auth.join(', ')}`;
+    }
 
-        // Apply pagination
-        const totalCountSnapshot = await productsRef.count().get()
-        const totalCount = totalCountSnapshot.data().count;
-        productsRef = productsRef
-            .limit(limit)
-            .offset(offset);
+    // Describe the rate limit of the endpoint group, admins are exempt
+    const policy = RATE_LIMIT_POLICIES[definition.rateLimit];
+    description += `. Rate limited to ${policy.capacity} requests, refilled at ${policy.refill_per_minute} per minute ` +
+        `(${definition.rateLimit} group)`;
+
+    // The idempotent endpoints accept an idempotency key
+    if (definition.idempotent) {
+        parameters = [...parameters, {
+            name: 'Idempotency-Key',
+            in: 'header',
+            required: false,
+            description: `Key to retry the request safely, the response is replayed for ${IDEMPOTENCY_KEY_TTL_HOURS} hours`,
+            schema: {type: 'string', maxLength: MAX_IDEMPOTENCY_KEY_LENGTH},
+        }];
+    }
 
-        // Get the products
-        const productSnapshot = await productsRef.get();
-        const products: Record<string, ProductData> = {};
-        productSnapshot.forEach(doc => {
-            products[doc.id] = doc.data() as ProductData;
-        });
-        logInfo(`Retrieved products: ${JSON.stringify(products)}`);
+    return {
+        operationId,
+        summary: definition.summary,
+        description,
+        tags: [tag],
+        ...(definition.auth !== null ? {security: [{bearerAuth: []}]} : {}),
+        ...(parameters.length > 0 ? {parameters} : {}),
+        ...(body !== null ? {
+            requestBody: {
+                required: Object.values(body).some(fieldSchema => fieldSchema.required),
+                content: {'application/json': {schema: getRequestSchemaSpec(body)}},
+            },
+        } : {}),
+        responses: getOpenApiResponses(definition, status, extraErrors),
+    };
+}
 
-        res.status(200).send({
-            products,
-            total_count: totalCount,
-        });
-    })
-);
+// Get the OpenAPI document of every endpoint function and of every route of the API function
+export function getOpenApiDocument(serverUrl: string) {
+    const paths: Record<string, Record<string, unknown>> = {};
 
-// Search products
-export const search_products = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function search_products called`);
+    // Every endpoint function takes its input in a POST body
+    for (const definition of ENDPOINT_DEFINITIONS) {
+        paths[`/${definition.name}`] = {
+            post: getOpenApiOperation(definition, definition.name, 'functions', [], definition.body, 200),
+        };
+    }
 
-        // Validate input data
-        const {
-            title = null,
-            min_price = null,
-            max_price = null,
-            min_stock = null,
-            max_stock = null,
-            min_created_at = null,
-            max_created_at = null,
-            limit = 10,
-            offset = 0
-        } = req.body;
-        validateNonEmptyStringField(title, 'Title');
-        validatePositiveNonZeroNumberField(limit, 'Limit');
-        validatePositiveNumberField(offset, 'Offset');
-
-        // Get the products for the authenticated user
-        let productsRef = firestore.collection('products')
-            .where('active', '==', true)
-            .where("title", ">=", title)
-            .where("title", "<=", title + "\uf8ff");
-
-        // Apply filters
-        if (min_price !== null) {
-            validatePositiveNumberField(min_price, 'Minimum Price');
-            productsRef = productsRef.where('price', '>=', min_price);
-        }
-        if (max_price !== null) {
-            validatePositiveNumberField(max_price, 'Maximum Price');
-            productsRef = productsRef.where('price', '<=', max_price);
-        }
-        if (min_stock !== null) {
-            validatePositiveNumberField(min_stock, 'Minimum Stock');
-            productsRef = productsRef.where('stock', '>=', min_stock);
-        }
-        if (max_stock !== null) {
-            validatePositiveNumberField(max_stock, 'Maximum Stock');
-            productsRef = productsRef.where('stock', '<=', max_stock);
-        }
-        if (min_created_at !== null) {
-            validateStringField(min_created_at, 'Minimum Created At');
-            productsRef = productsRef.where('created_at', '>=', new Date(min_created_at));
-        }
-        if (max_created_at !== null) {
-            validateStringField(max_created_at, 'Maximum Created At');
-            productsRef = productsRef.where('created_at', '<=', new Date(max_created_at));
+    // The API routes take their input from the path, and from the query or the body
+    for (const route of API_ROUTES) {
+        const definition = route.endpoint.definition;
+        const path = `/api${route.path.replace(/:(\w+)/g, '{$1}')}`;
+        const parameters: unknown[] = Object.entries(route.params ?? {}).map(([param, field]) => ({
+            name: param,
+            in: 'path',
+            required: true,
+            schema: definition.body[field].spec,
+        }));
+
+        // The fields that aren't given in the path
+        const pathFields = Object.values(route.params ?? {});
+        const body: RequestSchema = {};
+        Object.entries(definition.body)
+            .filter(([fieldName]) => !pathFields.includes(fieldName))
+            .forEach(([fieldName, fieldSchema]) => body[fieldName] = fieldSchema);
+
+        const readsQuery = route.method === 'GET' || route.method === 'DELETE';
+        if (readsQuery) {
+            const queryParams = Object.fromEntries(Object.entries(route.query ?? {}).map(([queryParam, field]) => [field, queryParam]));
+            const querySpec = getRequestSchemaSpec(body).properties as Record<string, OpenApiSchemaData>;
+            Object.entries(body).forEach(([fieldName, fieldSchema]) => parameters.push({
+                name: queryParams[fieldName] ?? fieldName,
+                in: 'query',
+                required: fieldSchema.required,
+                schema: querySpec[fieldName],
+                ...(fieldSchema.spec.type === 'array' ? {style: 'form', explode: false} : {}),
+            }));
         }
 
-        // Apply pagination
-        const totalCountSnapshot = await productsRef.count().get()
-        const totalCount = totalCountSnapshot.data().count;
-        productsRef = productsRef.limit(limit).offset(offset)
+        paths[path] ??= {};
+        paths[path][route.method.toLowerCase()] = getOpenApiOperation(
+            definition,
+            `api_${definition.name}`,
+            route.path.split('/')[1],
+            parameters,
+            readsQuery ? null : body,
+            route.status ?? 200,
+            [404]
+        );
+    }
 
-        // Get the products
-        const productsSnapshot = await productsRef.get();
-        const products: Record<string, ProductData> = {};
-        productsSnapshot.forEach(doc => {
-            products[doc.id] = doc.data() as ProductData;
-        });
-        logInfo(`Retrieved products: ${JSON.stringify(products)}`);
+    return {
+        openapi: '3.0.3',
+        info: {
+            title: 'Store API',
+            version: '1.0.0',
+            description: 'Every endpoint is served by its own function, taking its input in a POST body, and by the ' +
+                'resource-oriented routes of the api function',
+        },
+        servers: [{url: serverUrl}],
+        paths,
+        components: {
+            securitySchemes: {
+                bearerAuth: {type: 'http', scheme: 'bearer', bearerFormat: 'Firebase ID token'},
+            },
+            schemas: OPENAPI_COMPONENT_SCHEMAS,
+        },
+    };
+}
 
-        res.status(200).send({
-            products,
-            total_count: totalCount,
-        });
+// Function to get the OpenAPI document, generated from the endpoint definitions
+export const openapi = onRequestWithCORS(
+    'openapi',
+    handleRequestError(async (req: Request, res: Response) => {
+        logInfo(`Function openapi called`);
+
+        // The endpoint functions are served next to this one
+        const protocol = req.get('x-forwarded-proto') ?? req.protocol;
+        const basePath = req.originalUrl.split('?')[0].replace(/\/openapi(\/.*)?$/, '').replace(/\/$/, '');
+
+        res.status(200).send(getOpenApiDocument(`${protocol}://${req.get('host')}${basePath}`));
     })
 );
 
-// Search my products
-export const search_my_products = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function search_my_products called`);
+// --- RATE LIMITING
+
+// Verified ID tokens of the requests, verified once for the rate limit and the idempotency key
+const verifiedIdTokens = new WeakMap<Request, Promise<DecodedIdToken | null>>();
+
+// Get the verified ID token of a request, or null if it has none or it's invalid. Only the token signature is
+// verified, the endpoint checks if it's revoked
+function getVerifiedIdToken(req: Request, repositories: Repositories) {
+    let decodedIdToken = verifiedIdTokens.get(req);
+    if (decodedIdToken === undefined) {
+        const authorizationHeader = req.headers['Authorization'] as string || req.headers['authorization'] as string;
+        const token = authorizationHeader?.split(' ')[1];
+        decodedIdToken = token ? repositories.accounts.verifyIdToken(token, false).then(verifiedIdToken => {
+            updateLogContext({uid: verifiedIdToken.uid});
+            return verifiedIdToken;
+        }, error => {
+            logWarning(`Token verification failed: ${error}`);
+            return null;
+        }) : Promise.resolve(null);
+        verifiedIdTokens.set(req, decodedIdToken);
+    }
+    return decodedIdToken;
+}
 
-        // Check if the user is authenticated
-        const decodedIdToken = await checkAuth(req);
+// Get the key of the rate limit of a request, the verified user ID or else the client IP address. Admins are exempt,
+// so there's no key for them
+async function getRateLimitKey(req: Request, repositories: Repositories): Promise<string | null> {
+    const decodedIdToken = await getVerifiedIdToken(req, repositories);
+    if (decodedIdToken !== null) {
+        return hasRole(decodedIdToken, 'admin') ? null : `uid:${decodedIdToken.uid}`;
+    }
+    return `ip:${req.ip ?? req.socket?.remoteAddress ?? 'unknown'}`;
+}
 
-        // Validate input data
-        const {title = null, limit = 10, offset = 0} = req.body;
-        validateNonEmptyStringField(title, 'Title');
-        validatePositiveNonZeroNumberField(limit, 'Limit');
-        validatePositiveNumberField(offset, 'Offset');
+// Check the rate limit of an endpoint group, taking a token from the bucket of the user or of the IP address
+async function checkRateLimit(req: Request, res: Response, repositories: Repositories, group: RateLimitGroup) {
+    if (!CONFIG.rateLimitingEnabled) {
+        return;
+    }
 
-        // Get the products for the authenticated user
-        let productsRef = firestore.collection('products')
-            .where('owner', '==', decodedIdToken.uid)
-            .where("title", ">=", title)
-            .where("title", "<=", title + "\uf8ff");
+    const key = await getRateLimitKey(req, repositories);
+    if (key === null) {
+        return;
+    }
 
-        // Apply pagination
-        const totalCountSnapshot = await productsRef.count().get()
-        const totalCount = totalCountSnapshot.data().count;
-        let productRef = productsRef.limit(limit).offset(offset)
+    const policy = RATE_LIMIT_POLICIES[group];
+    const refillPerMillisecond = policy.refill_per_minute / (60 * 1000);
+    const bucketId = `${group}_${key}`;
 
-        // Get the products
-        const productSnapshot = await productRef.get();
-        const products: Record<string, ProductData> = {};
-        productSnapshot.forEach(doc => {
-            products[doc.id] = doc.data() as ProductData;
-        });
+    let retryAfter: number;
+    try {
+        retryAfter = await repositories.runTransaction(async (transaction) => {
+            const bucketData = await transaction.rateLimits.get(bucketId);
+            const now = new Date();
+
+            // Refill the bucket for the time elapsed since its last request
+            let tokens = policy.capacity;
+            if (bucketData !== null) {
+                const elapsed = now.getTime() - toDate(bucketData.updated_at).getTime();
+                tokens = Math.min(policy.capacity, bucketData.tokens + elapsed * refillPerMillisecond);
+            }
 
-        logInfo(`Retrieved products: ${JSON.stringify(products)}`);
+            // Get the seconds to wait until the next token if the bucket is empty
+            if (tokens < 1) {
+                return Math.ceil((1 - tokens) / refillPerMillisecond / 1000);
+            }
 
-        res.status(200).send({
-            products,
-            total_count: totalCount,
+            // The bucket expires once it's full again, and the TTL policy on 'expires_at' deletes it
+            tokens -= 1;
+            transaction.rateLimits.set(bucketId, {
+                tokens,
+                updated_at: now,
+                expires_at: new Date(now.getTime() + (policy.capacity - tokens) / refillPerMillisecond),
+            });
+            return 0;
         });
-    })
-);
+    } catch (error) {
+        // Let the request through rather than failing it when the bucket can't be updated
+        logWarning(`Rate limit not checked for ${key} in group ${group}: ${error}`);
+        return;
+    }
 
-// Get the latest products
-export const get_latest_products = onRequestWithCORS(
-    handleRequestError(async (req: Request, res: Response) => {
-        logInfo(`Function get_latest_products called`);
+    if (retryAfter > 0) {
+        logWarning(`Rate limit exceeded for ${key} in group ${group}`);
+        res.set('Retry-After', `${retryAfter}`);
+        throw new HTTPError('Too many requests', 429, {retry_after: retryAfter});
+    }
+}
 
-        // Validate input data
-        const {limit = 10, offset = 0} = req.body;
-        validatePositiveNonZeroNumberField(limit, 'Limit');
-        validatePositiveNumberField(offset, 'Offset');
+// --- IDEMPOTENCY
 
-        // Get the latest products
-        let productsRef = firestore.collection('products')
-            .where('active', '==', true)
-            .orderBy('created_at', 'desc');
+// Get the fingerprint of a request, so a key reused with another endpoint or body is detected
+function getRequestFingerprint(endpoint: string, body: unknown) {
+    return createHash('sha256').update(`${endpoint}:${JSON.stringify(body ?? {})}`).digest('hex');
+}
 
-        // Apply pagination
-        const totalCountSnapshot = await productsRef.count().get()
-        const totalCount = totalCountSnapshot.data().count;
-        productsRef = productsRef.limit(limit).offset(offset)
+// Handle a mutating request, the response of the first request with an idempotency key is stored and replayed to the
+// retries of the same user with that key
+async function handleIdempotentRequest(req: Request, res: Response, repositories: Repositories, endpoint: string,
+                                       fn: () => Promise<EndpointResponseData>): Promise<EndpointResponseData> {
+    const key = req.get('Idempotency-Key');
+    const decodedIdToken = key !== undefined ? await getVerifiedIdToken(req, repositories) : null;
+    if (key === undefined || decodedIdToken === null) {
+        // Requests without a key, or without a valid token which the endpoint rejects, are handled as usual
+        return fn();
+    }
+    if (key === '' || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        logWarning(`Invalid argument: Idempotency key must have 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+        throw new HTTPError(`Idempotency key must have 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`, 400);
+    }
 
-        // Get the products
-        const productSnapshot = await productsRef.get();
-        const products: Record<string, ProductData> = {};
-        productSnapshot.forEach(doc => {
-            products[doc.id] = doc.data() as ProductData;
-        });
+    // The key is hashed as it can contain any character
+    const keyId = createHash('sha256').update(`${decodedIdToken.uid}:${key}`).digest('hex');
+    const fingerprint = getRequestFingerprint(endpoint, req.body);
+
+    // Hold the key, unless a request with it was already completed
+    const storedData = await repositories.runTransaction(async (transaction) => {
+        const keyData = await transaction.idempotencyKeys.get(keyId);
+        const now = new Date();
+        if (keyData !== null) {
+            const expired = toDate(keyData.expires_at) <= now;
+            const abandoned = keyData.status === 'in_progress' && toDate(keyData.locked_until) <= now;
+            if (!expired && !abandoned) {
+                if (keyData.fingerprint !== fingerprint) {
+                    logWarning(`Idempotency key ${key} of user ${decodedIdToken.uid} reused with a different request`);
+                    throw new HTTPError('Idempotency key was already used with a different request', 409);
+                }
+                if (keyData.status === 'in_progress') {
+                    logWarning(`Idempotency key ${key} of user ${decodedIdToken.uid} is in use by another request`);
+                    throw new HTTPError('A request with this idempotency key is in progress', 409);
+                }
+                return keyData;
+            }
+        }
 
-        logInfo(`Retrieved products: ${JSON.stringify(products)}`);
+        transaction.idempotencyKeys.set(keyId, {
+            owner: decodedIdToken.uid,
+            key,
+            endpoint,
+            fingerprint,
+            status: 'in_progress',
+            response_status: null,
+            response_body: null,
+            locked_until: new Date(now.getTime() + IDEMPOTENCY_KEY_LOCK_SECONDS * 1000),
+            expires_at: new Date(now.getTime() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000),
+            created_at: now,
+        } as IdempotencyKeyData);
+        return null;
+    });
+
+    // Replay the stored response
+    if (storedData !== null) {
+        logInfo(`Replaying the response of idempotency key ${key} of user ${decodedIdToken.uid}`);
+        res.set('Idempotent-Replayed', 'true');
+        return {status: storedData.response_status as number, body: JSON.parse(storedData.response_body as string)};
+    }
 
-        res.status(200).send({
-            products,
-            total_count: totalCount,
-        });
-    })
-);
\ No newline at end of file
+    // Store the response of the handler, or the client error it failed with
+    let response: EndpointResponseData;
+    try {
+        response = await fn();
+    } catch (error) {
+        // Release the key after a server error, so the request can be retried with it
+        if (error instanceof HTTPError && error.statusCode < 500 && error.statusCode !== 429) {
+            await repositories.idempotencyKeys.update(keyId, {
+                status: 'completed',
+                response_status: error.statusCode,
+                response_body: JSON.stringify(getHTTPErrorBody(error)),
+            });
+        } else {
+            await repositories.idempotencyKeys.delete(keyId);
+        }
+        throw error;
+    }
+    await repositories.idempotencyKeys.update(keyId, {
+        status: 'completed',
+        response_status: response.status,
+        response_body: JSON.stringify(response.body ?? null),
+    });
+    return response;
+}